@@ -16,8 +16,9 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Slider as UISlider } from '@/components/ui/slider';
-import { Beatmap, HitCircle, Slider as SliderType, Spinner } from '@/types/game';
-import { exportOsuFile } from '@/lib/osuParser';
+import { Beatmap, HitCircle, HitObject, Slider as SliderType, Spinner } from '@/types/game';
+import { assignCombos, exportOsuFile, setSliderTiming } from '@/lib/osuParser';
+import { buildSliderPath, getSliderPath } from '@/lib/sliderCurve';
 import { audioEngine } from '@/lib/audioEngine';
 import { toast } from 'sonner';
 import JSZip from 'jszip';
@@ -30,12 +31,21 @@ interface BeatmapEditorProps {
 const PLAYFIELD_WIDTH = 512;
 const PLAYFIELD_HEIGHT = 384;
 
+// Re-number combos and colours after objects are added or removed
+const withCombos = (hitObjects: HitObject[]): HitObject[] => {
+  const updated = hitObjects.map(obj => ({ ...obj }));
+  assignCombos(updated);
+  return updated;
+};
+
 export const BeatmapEditor = ({ onBack }: BeatmapEditorProps) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const timelineRef = useRef<HTMLDivElement>(null);
   const audioInputRef = useRef<HTMLInputElement>(null);
   
   const [beatmap, setBeatmap] = useState<Beatmap>({
+    // Hashed once the map is exported and imported again
+    md5: '',
     audioFilename: 'audio.mp3',
     audioLeadIn: 0,
     previewTime: -1,
@@ -159,11 +169,12 @@ export const BeatmapEditor = ({ onBack }: BeatmapEditorProps) => {
         time,
         comboNumber,
         comboColor: 0,
+        newCombo: comboNumber === 1,
       };
       
       setBeatmap(prev => ({
         ...prev,
-        hitObjects: [...prev.hitObjects, newCircle].sort((a, b) => a.time - b.time),
+        hitObjects: withCombos([...prev.hitObjects, newCircle].sort((a, b) => a.time - b.time)),
       }));
       
       toast.success('Circle added');
@@ -176,11 +187,12 @@ export const BeatmapEditor = ({ onBack }: BeatmapEditorProps) => {
         endTime: time + 2000,
         comboNumber: 1,
         comboColor: 0,
+        newCombo: true,
       };
       
       setBeatmap(prev => ({
         ...prev,
-        hitObjects: [...prev.hitObjects, newSpinner].sort((a, b) => a.time - b.time),
+        hitObjects: withCombos([...prev.hitObjects, newSpinner].sort((a, b) => a.time - b.time)),
       }));
       
       toast.success('Spinner added');
@@ -227,6 +239,8 @@ export const BeatmapEditor = ({ onBack }: BeatmapEditorProps) => {
     
     const time = snapToBeat(currentTime);
     const comboNumber = beatmap.hitObjects.filter(o => o.time < time).length % 10 + 1;
+    // Keep the whole drawn curve rather than trimming it to a fixed length
+    const length = Math.max(1, Math.round(buildSliderPath('B', sliderPoints).length));
     
     const newSlider: SliderType = {
       type: 'slider',
@@ -236,16 +250,19 @@ export const BeatmapEditor = ({ onBack }: BeatmapEditorProps) => {
       curveType: 'B',
       curvePoints: sliderPoints.slice(1),
       slides: 1,
-      length: 100,
+      length,
       comboNumber,
       comboColor: 0,
-      duration: 500,
-      tickCount: 2,
+      newCombo: comboNumber === 1,
+      duration: 0,
+      tickDistance: 0,
+      tickCount: 0,
     };
+    setSliderTiming(newSlider, beatmap);
     
     setBeatmap(prev => ({
       ...prev,
-      hitObjects: [...prev.hitObjects, newSlider].sort((a, b) => a.time - b.time),
+      hitObjects: withCombos([...prev.hitObjects, newSlider].sort((a, b) => a.time - b.time)),
     }));
     
     setIsDrawingSlider(false);
@@ -259,7 +276,7 @@ export const BeatmapEditor = ({ onBack }: BeatmapEditorProps) => {
     
     setBeatmap(prev => ({
       ...prev,
-      hitObjects: prev.hitObjects.filter((_, i) => i !== selectedObject),
+      hitObjects: withCombos(prev.hitObjects.filter((_, i) => i !== selectedObject)),
     }));
     setSelectedObject(null);
     toast.success('Object deleted');
@@ -364,12 +381,13 @@ export const BeatmapEditor = ({ onBack }: BeatmapEditorProps) => {
         ctx.fillText(obj.comboNumber.toString(), obj.x, obj.y);
       } else if (obj.type === 'slider') {
         const slider = obj as SliderType;
+        const pathPoints = getSliderPath(slider).points;
         ctx.beginPath();
-        ctx.moveTo(slider.x, slider.y);
-        for (const p of slider.curvePoints) {
-          ctx.lineTo(p.x, p.y);
+        ctx.moveTo(pathPoints[0].x, pathPoints[0].y);
+        for (let p = 1; p < pathPoints.length; p++) {
+          ctx.lineTo(pathPoints[p].x, pathPoints[p].y);
         }
-        ctx.strokeStyle = color;
+        ctx.strokeStyle = beatmap.sliderTrackOverride ?? color;
         ctx.lineWidth = 50;
         ctx.lineCap = 'round';
         ctx.stroke();
@@ -398,9 +416,10 @@ export const BeatmapEditor = ({ onBack }: BeatmapEditorProps) => {
     // Draw slider being drawn
     if (isDrawingSlider && sliderPoints.length > 0) {
       ctx.globalAlpha = 0.7;
+      const previewPoints = buildSliderPath('B', sliderPoints).points;
       ctx.beginPath();
-      ctx.moveTo(sliderPoints[0].x, sliderPoints[0].y);
-      for (const p of sliderPoints.slice(1)) {
+      ctx.moveTo(previewPoints[0].x, previewPoints[0].y);
+      for (const p of previewPoints.slice(1)) {
         ctx.lineTo(p.x, p.y);
       }
       ctx.strokeStyle = '#00f0ff';
@@ -0,0 +1,148 @@
+import { useMemo, useState } from 'react';
+import { Trophy, Film } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { MODS } from '@/types/game';
+import { SavedScore, getGradeColor, getScoringMode } from '@/types/score';
+import { useSettings } from '@/hooks/use-settings';
+
+type SortKey = 'score' | 'accuracy' | 'combo';
+
+const SORT_OPTIONS: { key: SortKey; label: string }[] = [
+  { key: 'score', label: 'Score' },
+  { key: 'accuracy', label: 'Accuracy' },
+  { key: 'combo', label: 'Combo' },
+];
+
+const ALL_MODS = 'all';
+const NO_MOD = 'NM';
+
+// Mod combinations are compared in MODS order, so HD+DT and DT+HD match
+const getModKey = (mods: string[]): string => {
+  const names = MODS.filter(mod => mods.includes(mod.id)).map(mod => mod.shortName);
+  return names.length > 0 ? names.join('') : NO_MOD;
+};
+
+const compareScores = (sort: SortKey) => (a: SavedScore, b: SavedScore): number => {
+  switch (sort) {
+    case 'accuracy':
+      return b.accuracy - a.accuracy || b.score - a.score;
+    case 'combo':
+      return b.maxCombo - a.maxCombo || b.score - a.score;
+    default:
+      return b.score - a.score || a.timestamp - b.timestamp;
+  }
+};
+
+interface BeatmapLeaderboardProps {
+  scores: SavedScore[];
+  onWatchReplay?: (score: SavedScore) => void;
+  canWatchReplay?: (score: SavedScore) => boolean;
+}
+
+export const BeatmapLeaderboard = ({ scores, onWatchReplay, canWatchReplay }: BeatmapLeaderboardProps) => {
+  const [sort, setSort] = useState<SortKey>('score');
+  const [modFilter, setModFilter] = useState<string>(ALL_MODS);
+  const { scoringMode } = useSettings();
+
+  // Classic and standardised totals are not comparable, so only the current mode is ranked
+  const modeScores = useMemo(
+    () => scores.filter(score => getScoringMode(score) === scoringMode),
+    [scores, scoringMode]
+  );
+
+  const modCombinations = useMemo(
+    () => Array.from(new Set(modeScores.map(score => getModKey(score.mods)))).sort(),
+    [modeScores]
+  );
+
+  const rankedScores = useMemo(() => {
+    const filtered = modFilter === ALL_MODS
+      ? modeScores
+      : modeScores.filter(score => getModKey(score.mods) === modFilter);
+    return [...filtered].sort(compareScores(sort));
+  }, [modeScores, sort, modFilter]);
+
+  const formatDate = (timestamp: number) => {
+    return new Date(timestamp).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+    });
+  };
+
+  return (
+    <div className="flex flex-col min-h-0">
+      <div className="flex items-center gap-2 mb-3">
+        <Trophy className="w-5 h-5 text-gold" />
+        <h3 className="font-display text-lg flex-1">Leaderboard</h3>
+        <div className="flex gap-1">
+          {SORT_OPTIONS.map(option => (
+            <Button
+              key={option.key}
+              variant={sort === option.key ? 'default' : 'ghost'}
+              size="sm"
+              className="h-7 px-2 text-xs"
+              onClick={() => setSort(option.key)}
+            >
+              {option.label}
+            </Button>
+          ))}
+        </div>
+        <Select value={modFilter} onValueChange={setModFilter}>
+          <SelectTrigger className="h-7 w-[110px] text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_MODS}>All mods</SelectItem>
+            {modCombinations.map(key => (
+              <SelectItem key={key} value={key}>{key}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {rankedScores.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-4">
+          {modeScores.length === 0 ? 'No scores on this difficulty yet' : 'No scores with these mods'}
+        </p>
+      ) : (
+        <div className="space-y-1 overflow-y-auto pr-1">
+          {rankedScores.map((score, index) => (
+            <div
+              key={score.id}
+              className="flex items-center gap-3 rounded-lg px-3 py-2 bg-card/50 border border-border/30 text-sm"
+            >
+              <span className="w-6 text-muted-foreground text-right">#{index + 1}</span>
+              <span className={`w-8 font-display font-black text-lg text-center ${getGradeColor(score.grade)}`}>
+                {score.grade}
+              </span>
+              <div className="flex-1 min-w-0">
+                <div className="font-semibold">{score.score.toLocaleString()}</div>
+                <div className="text-xs text-muted-foreground truncate">
+                  {getModKey(score.mods)} • {formatDate(score.timestamp)}
+                </div>
+              </div>
+              <div className="text-right">
+                <div className="text-secondary">{score.accuracy.toFixed(2)}%</div>
+                <div className="text-xs text-primary">{score.maxCombo}x</div>
+              </div>
+              {onWatchReplay && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  onClick={() => onWatchReplay(score)}
+                  disabled={canWatchReplay ? !canWatchReplay(score) : false}
+                  title="Watch replay"
+                >
+                  <Film className="w-4 h-4" />
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,15 +1,27 @@
 import { useRef, useEffect, useCallback, useState, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Pause, Play, RotateCcw } from 'lucide-react';
+import { Pause, Play, RotateCcw, FastForward } from 'lucide-react';
 import { Button } from '@/components/ui/button';
-import { Beatmap, HitCircle, Slider, Spinner, GameState, HitJudgement } from '@/types/game';
+import { Beatmap, HitCircle, Slider, Spinner, GameState, HitJudgement, Replay, REPLAY_KEYS } from '@/types/game';
 import { gameEngine } from '@/lib/gameEngine';
 import { audioEngine } from '@/lib/audioEngine';
+import { useSettings } from '@/hooks/use-settings';
+import {
+  getHiddenCircleAlpha,
+  getHiddenSliderBodyAlpha,
+  getFlashlightRadius,
+  getFlashlightOpacity,
+  drawFlashlight,
+} from '@/lib/modVisuals';
+import { getSliderPath, getSliderPosition, getPositionAtDistance } from '@/lib/sliderCurve';
+import { getKiaiPulse } from '@/lib/timing';
+import { formatHitError } from '@/types/score';
+import { getBeatmapOffset, setBeatmapOffset } from '@/lib/beatmapOffsets';
 
 interface GameCanvasProps {
   beatmap: Beatmap;
   mods: string[];
-  onGameEnd: (state: GameState) => void;
+  onGameEnd: (state: GameState, replay?: Replay) => void;
   onBack: () => void;
 }
 
@@ -17,6 +29,22 @@ interface GameCanvasProps {
 const PLAYFIELD_WIDTH = 512;
 const PLAYFIELD_HEIGHT = 384;
 
+// Hit error meter: half its width in screen pixels (the 50 window), and how
+// long each hit's tick stays on it (ms of song time)
+const HIT_ERROR_BAR_HALF_WIDTH = 120;
+const HIT_ERROR_TICK_LIFETIME = 8000;
+
+// Local offset hotkeys: + and - nudge by 5ms, or 1ms with Alt held
+const LOCAL_OFFSET_STEP = 5;
+const LOCAL_OFFSET_FINE_STEP = 1;
+const OFFSET_NOTICE_DURATION = 1500;
+
+// Countdown cues and how long each stays on screen (ms of song time)
+const COUNTDOWN_LABELS = ['3', '2', '1', 'GO!'];
+const COUNTDOWN_CUE_DURATION = 600;
+// Skips the intro or a break when it is not a tap key
+const SKIP_KEY = 'Space';
+
 // Pre-computed color cache for performance
 const colorCache = new Map<string, { shaded: string }>();
 const getShaded = (color: string): string => {
@@ -52,12 +80,29 @@ export const GameCanvas = ({ beatmap, mods, onGameEnd, onBack }: GameCanvasProps
   const [offset, setOffset] = useState({ x: 0, y: 0 });
   const [isPaused, setIsPaused] = useState(false);
   const [gameState, setGameState] = useState<GameState | null>(null);
-  const [showCountdown, setShowCountdown] = useState(true);
-  const [countdown, setCountdown] = useState(3);
+  const [canSkip, setCanSkip] = useState(false);
   const [isMobile] = useState(() => 'ontouchstart' in window || navigator.maxTouchPoints > 0);
+  const settings = useSettings();
+  const inputSettings = settings.input;
+  const [fps, setFps] = useState(0);
+  // The game loop reads settings through a ref so changes apply without restarting it
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
+  // Pointer position in playfield coordinates, for the drawn cursor
+  const pointerRef = useRef<{ x: number; y: number } | null>(null);
+  // This map's offset on top of the global one, nudged with hotkeys
+  const localOffsetRef = useRef(getBeatmapOffset(beatmap.md5));
+  const [offsetNotice, setOffsetNotice] = useState<string | null>(null);
+  const offsetNoticeTimeoutRef = useRef<ReturnType<typeof setTimeout>>();
 
   // Memoize combo colors for performance
   const comboColors = useMemo(() => beatmap.comboColors, [beatmap.comboColors]);
+  const sliderColors = useMemo(
+    () => ({ track: beatmap.sliderTrackOverride, border: beatmap.sliderBorder ?? '#ffffff' }),
+    [beatmap.sliderTrackOverride, beatmap.sliderBorder]
+  );
+  const hidden = useMemo(() => mods.includes('hd'), [mods]);
+  const flashlight = useMemo(() => mods.includes('fl'), [mods]);
 
   // Calculate canvas scale to fit container
   useEffect(() => {
@@ -89,6 +134,9 @@ export const GameCanvas = ({ beatmap, mods, onGameEnd, onBack }: GameCanvasProps
   useEffect(() => {
     gameEngine.loadBeatmap(beatmap);
     gameEngine.setMods(mods);
+    gameEngine.setScoringMode(settingsRef.current.scoringMode);
+    localOffsetRef.current = getBeatmapOffset(beatmap.md5);
+    gameEngine.setAudioOffset(settingsRef.current.globalOffset + localOffsetRef.current);
     
     // Throttle state updates to reduce React re-renders (every 3rd frame)
     gameEngine.onStateUpdate = (state) => {
@@ -96,6 +144,7 @@ export const GameCanvas = ({ beatmap, mods, onGameEnd, onBack }: GameCanvasProps
       stateUpdateCounterRef.current++;
       if (stateUpdateCounterRef.current % 3 === 0) {
         setGameState(state);
+        setCanSkip(gameEngine.getSkipTarget() !== null);
       }
     };
     gameEngine.onJudgement = (judgement) => {
@@ -107,25 +156,15 @@ export const GameCanvas = ({ beatmap, mods, onGameEnd, onBack }: GameCanvasProps
         judgementsRef.current = [...current, judgement];
       }
     };
-    gameEngine.onGameEnd = (state) => onGameEnd(state);
+    gameEngine.onGameEnd = (state, replay) => onGameEnd(state, replay);
     gameEngine.onFail = () => {
       setIsPaused(true);
     };
 
-    // Countdown
-    let count = 3;
-    const countdownInterval = setInterval(() => {
-      count--;
-      setCountdown(count);
-      if (count <= 0) {
-        clearInterval(countdownInterval);
-        setShowCountdown(false);
-        gameEngine.start();
-      }
-    }, 1000);
+    // Game time starts before 0 when the map needs a lead-in
+    gameEngine.start();
 
     return () => {
-      clearInterval(countdownInterval);
       gameEngine.stop();
     };
   }, [beatmap, mods, onGameEnd]);
@@ -135,12 +174,15 @@ export const GameCanvas = ({ beatmap, mods, onGameEnd, onBack }: GameCanvasProps
     const canvas = canvasRef.current;
     if (!canvas) return;
 
-    const ctx = canvas.getContext('2d', { alpha: false });
+    // Transparent so the background dim layer shows through
+    const ctx = canvas.getContext('2d');
     if (!ctx) return;
 
     // Target 60fps but allow higher on capable devices
     const targetFps = 60;
     const frameInterval = 1000 / targetFps;
+    let framesDrawn = 0;
+    let fpsWindowStart = performance.now();
 
     const render = (timestamp: number) => {
       const elapsed = timestamp - lastRenderTimeRef.current;
@@ -148,11 +190,19 @@ export const GameCanvas = ({ beatmap, mods, onGameEnd, onBack }: GameCanvasProps
       if (elapsed >= frameInterval) {
         lastRenderTimeRef.current = timestamp - (elapsed % frameInterval);
         
-        if (!isPaused && !showCountdown) {
+        if (!isPaused) {
           gameEngine.update();
         }
         
         drawGame(ctx);
+        framesDrawn++;
+      }
+
+      // Publish the frame rate twice a second to keep re-renders cheap
+      if (settingsRef.current.showFps && timestamp - fpsWindowStart >= 500) {
+        setFps(Math.round(framesDrawn * 1000 / (timestamp - fpsWindowStart)));
+        framesDrawn = 0;
+        fpsWindowStart = timestamp;
       }
       
       animationRef.current = requestAnimationFrame(render);
@@ -165,14 +215,12 @@ export const GameCanvas = ({ beatmap, mods, onGameEnd, onBack }: GameCanvasProps
         cancelAnimationFrame(animationRef.current);
       }
     };
-  }, [isPaused, showCountdown, scale, offset]);
+  }, [isPaused, scale, offset]);
 
   const drawGame = useCallback((ctx: CanvasRenderingContext2D) => {
     const canvas = ctx.canvas;
     
-    // Clear with background color for better performance (no alpha)
-    ctx.fillStyle = '#0a0a0f';
-    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
 
     // Draw playfield background
     ctx.save();
@@ -202,6 +250,9 @@ export const GameCanvas = ({ beatmap, mods, onGameEnd, onBack }: GameCanvasProps
       ctx.globalAlpha = 1;
     }
 
+    drawKiaiFlash(ctx, getKiaiPulse(beatmap.timingPoints, currentTime));
+    drawCountdown(ctx, currentTime);
+
     // Draw hit objects
     const approachTime = gameEngine.getApproachTime();
     const circleRadius = gameEngine.getCircleRadius();
@@ -240,34 +291,98 @@ export const GameCanvas = ({ beatmap, mods, onGameEnd, onBack }: GameCanvasProps
       const approachProgress = Math.max(0, Math.min(1, 1 - timeUntilHit / approachTime));
       const comboColor = comboColors[obj.comboColor % comboColors.length];
       
+      const hiddenAlpha = hidden ? getHiddenCircleAlpha(timeUntilHit, approachTime) : undefined;
+      
       if (obj.type === 'circle') {
-        drawHitCircle(ctx, obj as HitCircle, circleRadius, approachProgress, comboColor);
+        drawHitCircle(ctx, obj as HitCircle, circleRadius, approachProgress, comboColor, hiddenAlpha);
       } else if (obj.type === 'slider') {
+        const slider = obj as Slider;
         const activeSlider = activeSliders.get(i);
-        drawSlider(ctx, obj as Slider, circleRadius, approachProgress, comboColor, activeSlider?.progress || 0);
+        const hiddenFade = hidden
+          ? { head: hiddenAlpha, body: getHiddenSliderBodyAlpha(timeUntilHit, approachTime, slider.duration) }
+          : undefined;
+        drawSlider(ctx, slider, circleRadius, approachProgress, comboColor, activeSlider?.progress || 0, hiddenFade);
       } else if (obj.type === 'spinner') {
         const activeSpinner = activeSpinners.get(i);
         drawSpinner(ctx, obj as Spinner, currentTime, activeSpinner?.spinsCompleted || 0, activeSpinner?.requiredSpins || 1);
       }
     }
 
+    if (flashlight) {
+      const cursor = gameEngine.getCursorPosition();
+      const combo = gameStateRef.current?.combo || 0;
+      let sliderHeld = false;
+      for (const [, activeSlider] of activeSliders) {
+        if (activeSlider.isHeld) sliderHeld = true;
+      }
+      drawFlashlight(ctx, cursor.x, cursor.y, getFlashlightRadius(combo), getFlashlightOpacity(currentTime, breaks), sliderHeld);
+    }
+
+    if (pointerRef.current) {
+      drawCursor(ctx, pointerRef.current.x, pointerRef.current.y, settingsRef.current.cursorSize);
+    }
+
     ctx.restore();
 
     // Draw judgements from ref (avoid state updates during render)
     drawJudgements(ctx);
-  }, [beatmap.hitObjects, comboColors, scale, offset]);
+    drawHitErrorBar(ctx, currentTime);
+  }, [beatmap.hitObjects, beatmap.timingPoints, comboColors, sliderColors, hidden, flashlight, scale, offset]);
+
+  // The map's countdown, each cue shrinking and fading until the next
+  const drawCountdown = (ctx: CanvasRenderingContext2D, currentTime: number) => {
+    const times = gameEngine.getCountdownTimes();
+    for (let i = times.length - 1; i >= 0; i--) {
+      const age = currentTime - times[i];
+      if (age < 0) continue;
+      if (age > COUNTDOWN_CUE_DURATION) break;
+      const progress = age / COUNTDOWN_CUE_DURATION;
+      ctx.font = `bold ${Math.round(72 - 24 * progress)}px Orbitron`;
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      ctx.fillStyle = '#ffffff';
+      ctx.globalAlpha = 1 - progress;
+      ctx.fillText(COUNTDOWN_LABELS[i], PLAYFIELD_WIDTH / 2, PLAYFIELD_HEIGHT / 2);
+      ctx.globalAlpha = 1;
+      break;
+    }
+  };
+
+  // Kiai time: the playfield lights up on each beat
+  const drawKiaiFlash = (ctx: CanvasRenderingContext2D, pulse: number) => {
+    if (pulse <= 0) return;
+    ctx.fillStyle = `rgba(255, 255, 255, ${pulse * 0.06})`;
+    ctx.fillRect(0, 0, PLAYFIELD_WIDTH, PLAYFIELD_HEIGHT);
+    ctx.strokeStyle = '#ff2d95';
+    ctx.lineWidth = 3;
+    ctx.globalAlpha = 0.2 + pulse * 0.5;
+    ctx.strokeRect(0, 0, PLAYFIELD_WIDTH, PLAYFIELD_HEIGHT);
+    ctx.globalAlpha = 1;
+  };
+
+  const drawCursor = (ctx: CanvasRenderingContext2D, x: number, y: number, size: number) => {
+    ctx.beginPath();
+    ctx.arc(x, y, 8 * size, 0, Math.PI * 2);
+    ctx.fillStyle = '#ffffff';
+    ctx.shadowColor = '#00f0ff';
+    ctx.shadowBlur = 15;
+    ctx.fill();
+    ctx.shadowBlur = 0;
+  };
 
   const drawHitCircle = (
     ctx: CanvasRenderingContext2D, 
     circle: HitCircle, 
     radius: number, 
     approach: number,
-    color: string
+    color: string,
+    hiddenAlpha?: number
   ) => {
-    const alpha = Math.min(1, approach * 2);
+    // Hidden replaces the normal fade-in and removes the approach circle
+    const alpha = hiddenAlpha ?? Math.min(1, approach * 2);
     
     // Approach circle (simplified - no alpha per-frame recalc)
-    if (approach < 1) {
+    if (approach < 1 && hiddenAlpha === undefined) {
       const approachRadius = radius + (radius * 2) * (1 - approach);
       ctx.beginPath();
       ctx.arc(circle.x, circle.y, approachRadius, 0, Math.PI * 2);
@@ -305,29 +420,32 @@ export const GameCanvas = ({ beatmap, mods, onGameEnd, onBack }: GameCanvasProps
     radius: number,
     approach: number,
     color: string,
-    progress: number
+    progress: number,
+    hiddenFade?: { head: number; body: number }
   ) => {
     const alpha = Math.min(1, approach * 2);
-    const curvePoints = slider.curvePoints;
-    const curveLen = curvePoints.length;
+    const bodyAlpha = hiddenFade ? hiddenFade.body : alpha;
+    const path = getSliderPath(slider);
+    const pathPoints = path.points;
+    const pathLen = pathPoints.length;
 
     // Draw slider body - border first (underneath)
     ctx.beginPath();
-    ctx.moveTo(slider.x, slider.y);
-    for (let i = 0; i < curveLen; i++) {
-      ctx.lineTo(curvePoints[i].x, curvePoints[i].y);
+    ctx.moveTo(pathPoints[0].x, pathPoints[0].y);
+    for (let i = 1; i < pathLen; i++) {
+      ctx.lineTo(pathPoints[i].x, pathPoints[i].y);
     }
-    ctx.strokeStyle = '#ffffff';
+    ctx.strokeStyle = sliderColors.border;
     ctx.lineWidth = radius * 2 + 4;
     ctx.lineCap = 'round';
     ctx.lineJoin = 'round';
-    ctx.globalAlpha = alpha * 0.3;
+    ctx.globalAlpha = bodyAlpha * 0.3;
     ctx.stroke();
     
     // Slider body fill
-    ctx.strokeStyle = color;
+    ctx.strokeStyle = sliderColors.track ?? color;
     ctx.lineWidth = radius * 2;
-    ctx.globalAlpha = alpha * 0.5;
+    ctx.globalAlpha = bodyAlpha * 0.5;
     ctx.stroke();
     
     ctx.globalAlpha = alpha;
@@ -342,13 +460,16 @@ export const GameCanvas = ({ beatmap, mods, onGameEnd, onBack }: GameCanvasProps
     }
 
     // Draw end circle and reverse arrows
-    if (curveLen > 0) {
-      const endPoint = curvePoints[curveLen - 1];
+    if (pathLen > 1) {
+      const endPoint = pathPoints[pathLen - 1];
+      // Points just inside each end give the direction the reverse arrows face
+      const nearEnd = getPositionAtDistance(path, path.length - radius);
+      const nearStart = getPositionAtDistance(path, radius);
       ctx.beginPath();
       ctx.arc(endPoint.x, endPoint.y, radius, 0, Math.PI * 2);
       ctx.strokeStyle = '#ffffff';
       ctx.lineWidth = 3;
-      ctx.globalAlpha = alpha * 0.6;
+      ctx.globalAlpha = bodyAlpha * 0.6;
       ctx.stroke();
       
       // Draw reverse arrows if slider has multiple slides
@@ -360,7 +481,7 @@ export const GameCanvas = ({ beatmap, mods, onGameEnd, onBack }: GameCanvasProps
         if (currentSlide < slider.slides - 1) {
           const showEndArrow = currentSlide % 2 === 0 || currentSlide === 0;
           if (showEndArrow) {
-            drawReverseArrow(ctx, endPoint.x, endPoint.y, slider.x, slider.y, radius, alpha);
+            drawReverseArrow(ctx, endPoint.x, endPoint.y, nearEnd.x, nearEnd.y, radius, bodyAlpha);
           }
         }
         
@@ -368,7 +489,7 @@ export const GameCanvas = ({ beatmap, mods, onGameEnd, onBack }: GameCanvasProps
         if (slider.slides > 1 && currentSlide < slider.slides - 1) {
           const showStartArrow = currentSlide % 2 === 1;
           if (showStartArrow) {
-            drawReverseArrow(ctx, slider.x, slider.y, endPoint.x, endPoint.y, radius, alpha);
+            drawReverseArrow(ctx, slider.x, slider.y, nearStart.x, nearStart.y, radius, bodyAlpha);
           }
         }
       }
@@ -384,7 +505,7 @@ export const GameCanvas = ({ beatmap, mods, onGameEnd, onBack }: GameCanvasProps
       time: slider.time,
       comboNumber: slider.comboNumber,
       comboColor: slider.comboColor,
-    }, radius, approach, color);
+    }, radius, approach, color, hiddenFade?.head);
 
     ctx.globalAlpha = 1;
   };
@@ -423,24 +544,6 @@ export const GameCanvas = ({ beatmap, mods, onGameEnd, onBack }: GameCanvasProps
     
     ctx.restore();
   };
-  const getSliderPosition = (slider: Slider, progress: number) => {
-    const slideNumber = Math.floor(progress * slider.slides);
-    let t = (progress * slider.slides) % 1;
-    if (slideNumber % 2 === 1) t = 1 - t;
-
-    const allPoints = [{ x: slider.x, y: slider.y }, ...slider.curvePoints];
-    const totalPoints = allPoints.length;
-    if (totalPoints < 2) return { x: slider.x, y: slider.y };
-    
-    const index = Math.min(Math.floor(t * (totalPoints - 1)), totalPoints - 2);
-    const localT = (t * (totalPoints - 1)) % 1;
-
-    return {
-      x: allPoints[index].x + (allPoints[index + 1].x - allPoints[index].x) * localT,
-      y: allPoints[index].y + (allPoints[index + 1].y - allPoints[index].y) * localT,
-    };
-  };
-
   const drawSpinner = (
     ctx: CanvasRenderingContext2D,
     spinner: Spinner,
@@ -530,6 +633,53 @@ export const GameCanvas = ({ beatmap, mods, onGameEnd, onBack }: GameCanvasProps
   };
 
 
+  // Early hits to the left, late to the right, over the 300/100/50 windows,
+  // with an arrow at the mean offset
+  const drawHitErrorBar = (ctx: CanvasRenderingContext2D, currentTime: number) => {
+    const windows = gameEngine.getHitWindows();
+    const msToPx = HIT_ERROR_BAR_HALF_WIDTH / windows.good;
+    const centerX = ctx.canvas.width / 2;
+    const y = ctx.canvas.height - 24;
+
+    ctx.globalAlpha = 0.6;
+    for (const [window, color] of [
+      [windows.good, '#ffaa00'],
+      [windows.great, '#00ff88'],
+      [windows.perfect, '#00f0ff'],
+    ] as const) {
+      ctx.fillStyle = color;
+      ctx.fillRect(centerX - window * msToPx, y - 2, window * msToPx * 2, 4);
+    }
+
+    ctx.globalAlpha = 1;
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(centerX - 1, y - 10, 2, 20);
+
+    const hitErrors = gameEngine.getHitErrors();
+    for (let i = hitErrors.length - 1; i >= 0; i--) {
+      const age = currentTime - hitErrors[i].time;
+      if (age > HIT_ERROR_TICK_LIFETIME) break;
+      const error = hitErrors[i].error;
+      const abs = Math.abs(error);
+      ctx.globalAlpha = Math.max(0, 1 - age / HIT_ERROR_TICK_LIFETIME);
+      ctx.fillStyle = abs <= windows.perfect ? '#00f0ff' : abs <= windows.great ? '#00ff88' : '#ffaa00';
+      ctx.fillRect(centerX + error * msToPx - 1, y - 8, 2, 16);
+    }
+    ctx.globalAlpha = 1;
+
+    const mean = gameStateRef.current?.meanHitError;
+    if (hitErrors.length > 0 && mean !== undefined) {
+      const meanX = centerX + mean * msToPx;
+      ctx.fillStyle = '#ffffff';
+      ctx.beginPath();
+      ctx.moveTo(meanX, y - 12);
+      ctx.lineTo(meanX - 5, y - 20);
+      ctx.lineTo(meanX + 5, y - 20);
+      ctx.closePath();
+      ctx.fill();
+    }
+  };
+
   // Use native event listeners for better mobile performance
   useEffect(() => {
     const canvas = canvasRef.current;
@@ -544,7 +694,7 @@ export const GameCanvas = ({ beatmap, mods, onGameEnd, onBack }: GameCanvasProps
     };
 
     const handleTouchStart = (e: TouchEvent) => {
-      if (isPaused || showCountdown) return;
+      if (isPaused) return;
       e.preventDefault();
       const touch = e.touches[0];
       const { x, y } = getCoords(touch.clientX, touch.clientY);
@@ -552,7 +702,7 @@ export const GameCanvas = ({ beatmap, mods, onGameEnd, onBack }: GameCanvasProps
     };
 
     const handleTouchMove = (e: TouchEvent) => {
-      if (isPaused || showCountdown) return;
+      if (isPaused) return;
       e.preventDefault();
       const touch = e.touches[0];
       const { x, y } = getCoords(touch.clientX, touch.clientY);
@@ -563,21 +713,77 @@ export const GameCanvas = ({ beatmap, mods, onGameEnd, onBack }: GameCanvasProps
       gameEngine.handleMouseUp();
     };
 
+    // Left button acts as M1, right button as M2
+    const getMouseKey = (button: number) => button === 2 ? REPLAY_KEYS.M2 : REPLAY_KEYS.M1;
+
     const handleMouseDown = (e: MouseEvent) => {
-      if (isPaused || showCountdown || isMobile) return;
+      if (isPaused || isMobile) return;
       const { x, y } = getCoords(e.clientX, e.clientY);
-      gameEngine.handleClick(x, y);
+      pointerRef.current = { x, y };
+      if (!inputSettings.mouseButtons || e.button > 2) {
+        gameEngine.handleMouseMove(x, y);
+        return;
+      }
+      gameEngine.handleClick(x, y, getMouseKey(e.button));
     };
 
     const handleMouseMove = (e: MouseEvent) => {
-      if (isPaused || showCountdown || isMobile) return;
+      if (isMobile) return;
       const { x, y } = getCoords(e.clientX, e.clientY);
+      pointerRef.current = { x, y };
+      if (isPaused) return;
       gameEngine.handleMouseMove(x, y);
     };
 
-    const handleMouseUp = () => {
+    const handleMouseUp = (e: MouseEvent) => {
       if (isMobile) return;
-      gameEngine.handleMouseUp();
+      gameEngine.handleMouseUp(getMouseKey(e.button));
+    };
+
+    const handleContextMenu = (e: MouseEvent) => {
+      e.preventDefault();
+    };
+
+    // Raising the offset delays objects, for players whose hits land late
+    const nudgeLocalOffset = (delta: number) => {
+      const localOffset = localOffsetRef.current + delta;
+      localOffsetRef.current = localOffset;
+      setBeatmapOffset(beatmap.md5, localOffset);
+      gameEngine.setAudioOffset(settingsRef.current.globalOffset + localOffset);
+
+      setOffsetNotice(`Local offset: ${localOffset > 0 ? '+' : ''}${localOffset}ms`);
+      clearTimeout(offsetNoticeTimeoutRef.current);
+      offsetNoticeTimeoutRef.current = setTimeout(() => setOffsetNotice(null), OFFSET_NOTICE_DURATION);
+    };
+
+    const getKeyForCode = (code: string) => {
+      if (code === inputSettings.key1) return REPLAY_KEYS.K1;
+      if (code === inputSettings.key2) return REPLAY_KEYS.K2;
+      return null;
+    };
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const key = getKeyForCode(e.code);
+      if (key === null) {
+        if (e.code === SKIP_KEY) {
+          e.preventDefault();
+          if (!isPaused) gameEngine.skip();
+        } else if (e.code === 'Equal' || e.code === 'NumpadAdd' || e.code === 'Minus' || e.code === 'NumpadSubtract') {
+          e.preventDefault();
+          const step = e.altKey ? LOCAL_OFFSET_FINE_STEP : LOCAL_OFFSET_STEP;
+          nudgeLocalOffset(e.code === 'Equal' || e.code === 'NumpadAdd' ? step : -step);
+        }
+        return;
+      }
+      e.preventDefault();
+      if (e.repeat || isPaused) return;
+      gameEngine.handleKeyDown(key);
+    };
+
+    const handleKeyUp = (e: KeyboardEvent) => {
+      const key = getKeyForCode(e.code);
+      if (key === null) return;
+      gameEngine.handleKeyUp(key);
     };
 
     // Use passive: false for touch events to prevent delay
@@ -586,7 +792,11 @@ export const GameCanvas = ({ beatmap, mods, onGameEnd, onBack }: GameCanvasProps
     canvas.addEventListener('touchend', handleTouchEnd, { passive: false });
     canvas.addEventListener('mousedown', handleMouseDown);
     canvas.addEventListener('mousemove', handleMouseMove);
-    canvas.addEventListener('mouseup', handleMouseUp);
+    canvas.addEventListener('contextmenu', handleContextMenu);
+    // Releases are tracked on the window so a key is never left held
+    window.addEventListener('mouseup', handleMouseUp);
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
 
     return () => {
       canvas.removeEventListener('touchstart', handleTouchStart);
@@ -594,9 +804,14 @@ export const GameCanvas = ({ beatmap, mods, onGameEnd, onBack }: GameCanvasProps
       canvas.removeEventListener('touchend', handleTouchEnd);
       canvas.removeEventListener('mousedown', handleMouseDown);
       canvas.removeEventListener('mousemove', handleMouseMove);
-      canvas.removeEventListener('mouseup', handleMouseUp);
+      canvas.removeEventListener('contextmenu', handleContextMenu);
+      window.removeEventListener('mouseup', handleMouseUp);
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
     };
-  }, [isPaused, showCountdown, isMobile, scale, offset]);
+  }, [isPaused, isMobile, scale, offset, inputSettings, beatmap.md5]);
+
+  useEffect(() => () => clearTimeout(offsetNoticeTimeoutRef.current), []);
 
   const togglePause = () => {
     if (isPaused) {
@@ -609,21 +824,9 @@ export const GameCanvas = ({ beatmap, mods, onGameEnd, onBack }: GameCanvasProps
 
   const restart = () => {
     gameEngine.stop();
-    setCountdown(3);
-    setShowCountdown(true);
     judgementsRef.current = [];
     setIsPaused(false);
-    
-    let count = 3;
-    const interval = setInterval(() => {
-      count--;
-      setCountdown(count);
-      if (count <= 0) {
-        clearInterval(interval);
-        setShowCountdown(false);
-        gameEngine.start();
-      }
-    }, 1000);
+    gameEngine.start();
   };
 
   return (
@@ -639,6 +842,11 @@ export const GameCanvas = ({ beatmap, mods, onGameEnd, onBack }: GameCanvasProps
             <div className="text-sm text-muted-foreground">
               {gameState?.accuracy.toFixed(2) || 100}%
             </div>
+            {gameState && gameState.unstableRate > 0 && (
+              <div className="text-xs text-muted-foreground">
+                {gameState.unstableRate.toFixed(0)} UR • {formatHitError(gameState.meanHitError)}
+              </div>
+            )}
           </div>
         </div>
 
@@ -668,40 +876,62 @@ export const GameCanvas = ({ beatmap, mods, onGameEnd, onBack }: GameCanvasProps
         </div>
       </div>
 
-      {/* Canvas - cursor visible on PC, touch optimized on mobile */}
+      {/* Background dim */}
+      <div
+        className="absolute inset-0 bg-black pointer-events-none"
+        style={{ opacity: settings.backgroundDim / 100 }}
+      />
+
+      {/* Canvas - cursor drawn in the canvas on PC, touch optimized on mobile */}
       <canvas
         ref={canvasRef}
         width={PLAYFIELD_WIDTH * scale + offset.x * 2}
         height={PLAYFIELD_HEIGHT * scale + offset.y * 2}
         className="absolute inset-0 w-full h-full touch-none"
-        style={{ cursor: isMobile ? 'none' : 'crosshair' }}
+        style={{ cursor: 'none' }}
       />
 
-      {/* Countdown */}
+      {/* Local offset notice */}
       <AnimatePresence>
-        {showCountdown && (
+        {offsetNotice && (
           <motion.div
-            className="absolute inset-0 flex items-center justify-center bg-background/80 z-20"
-            initial={{ opacity: 0 }}
-            animate={{ opacity: 1 }}
+            className="absolute top-24 left-1/2 -translate-x-1/2 z-10 neon-box rounded-md px-3 py-1 text-sm font-mono pointer-events-none"
+            initial={{ opacity: 0, y: -10 }}
+            animate={{ opacity: 1, y: 0 }}
             exit={{ opacity: 0 }}
           >
-            <motion.div
-              key={countdown}
-              className="text-9xl font-display font-bold neon-text"
-              initial={{ scale: 2, opacity: 0 }}
-              animate={{ scale: 1, opacity: 1 }}
-              exit={{ scale: 0.5, opacity: 0 }}
-            >
-              {countdown > 0 ? countdown : 'GO!'}
-            </motion.div>
+            {offsetNotice}
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {/* FPS counter */}
+      {settings.showFps && (
+        <div className="absolute bottom-4 right-4 z-10 neon-box rounded-md px-2 py-1 text-xs font-mono text-muted-foreground pointer-events-none">
+          {fps} fps
+        </div>
+      )}
+
+      {/* Skip intro or break */}
+      <AnimatePresence>
+        {canSkip && !isPaused && (
+          <motion.div
+            className="absolute bottom-20 right-4 z-10"
+            initial={{ opacity: 0, x: 20 }}
+            animate={{ opacity: 1, x: 0 }}
+            exit={{ opacity: 0, x: 20 }}
+          >
+            <Button variant="neon" size="lg" onClick={() => gameEngine.skip()}>
+              <FastForward className="w-5 h-5 mr-2" />
+              Skip
+            </Button>
           </motion.div>
         )}
       </AnimatePresence>
 
       {/* Pause overlay */}
       <AnimatePresence>
-        {isPaused && !showCountdown && (
+        {isPaused && (
           <motion.div
             className="absolute inset-0 flex items-center justify-center bg-background/90 z-20"
             initial={{ opacity: 0 }}
@@ -0,0 +1,173 @@
+import { useState, useEffect, useRef } from 'react';
+import { motion } from 'framer-motion';
+import { ArrowLeft, Play, Square, Check } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { audioEngine } from '@/lib/audioEngine';
+import { updateSettings } from '@/lib/settingsStore';
+import { useSettings } from '@/hooks/use-settings';
+import { formatHitError } from '@/types/score';
+
+// 120 BPM; the first bar is for finding the beat and is not counted
+const BEAT_LENGTH = 500;
+const BEATS = 48;
+const WARMUP_BEATS = 4;
+// Taps needed before the result can be saved
+const MIN_TAPS = 16;
+
+interface OffsetCalibrationProps {
+  onBack: () => void;
+}
+
+export const OffsetCalibration = ({ onBack }: OffsetCalibrationProps) => {
+  const settings = useSettings();
+  const inputSettings = settings.input;
+  const [isRunning, setIsRunning] = useState(false);
+  const [beat, setBeat] = useState(0);
+  // Signed ms from the nearest click, as the player hears it
+  const [taps, setTaps] = useState<number[]>([]);
+  const isRunningRef = useRef(false);
+
+  const mean = taps.length > 0 ? taps.reduce((sum, tap) => sum + tap, 0) / taps.length : 0;
+  const spread = taps.length > 0
+    ? Math.sqrt(taps.reduce((sum, tap) => sum + Math.pow(tap - mean, 2), 0) / taps.length)
+    : 0;
+
+  const stop = () => {
+    audioEngine.stopMetronome();
+    isRunningRef.current = false;
+    setIsRunning(false);
+  };
+
+  const start = async () => {
+    setTaps([]);
+    setBeat(0);
+    await audioEngine.startMetronome(BEAT_LENGTH, BEATS);
+    isRunningRef.current = true;
+    setIsRunning(true);
+  };
+
+  // Clicks are timed from the audio clock less the output latency, the same
+  // way GameEngine judges hits, so the mean is what is left for the offset
+  const tap = () => {
+    if (!isRunningRef.current) return;
+    const time = audioEngine.getMetronomeTime() - audioEngine.getOutputLatency();
+    const nearest = Math.round(time / BEAT_LENGTH);
+    if (nearest < WARMUP_BEATS || nearest >= BEATS) return;
+    setTaps(current => [...current, time - nearest * BEAT_LENGTH]);
+  };
+
+  // Follow the metronome and stop once its last click has passed
+  useEffect(() => {
+    if (!isRunning) return;
+    const interval = setInterval(() => {
+      const current = Math.floor(audioEngine.getMetronomeTime() / BEAT_LENGTH);
+      setBeat(Math.max(0, Math.min(BEATS, current + 1)));
+      if (current >= BEATS) stop();
+    }, 50);
+    return () => clearInterval(interval);
+  }, [isRunning]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.repeat) return;
+      if (e.code !== inputSettings.key1 && e.code !== inputSettings.key2 && e.code !== 'Space') return;
+      e.preventDefault();
+      tap();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [inputSettings]);
+
+  useEffect(() => () => audioEngine.stopMetronome(), []);
+
+  const save = () => {
+    updateSettings({ globalOffset: Math.round(mean) });
+    onBack();
+  };
+
+  return (
+    <div className="min-h-screen bg-background p-4">
+      {/* Header */}
+      <motion.header
+        className="flex items-center gap-4 mb-8"
+        initial={{ opacity: 0, y: -20 }}
+        animate={{ opacity: 1, y: 0 }}
+      >
+        <Button variant="ghost" size="icon" onClick={onBack}>
+          <ArrowLeft className="w-5 h-5" />
+        </Button>
+        <h1 className="font-display text-3xl font-bold">Offset Calibration</h1>
+      </motion.header>
+
+      <div className="max-w-2xl mx-auto space-y-8">
+        <motion.section
+          className="neon-box rounded-xl p-6 space-y-6"
+          initial={{ opacity: 0, x: -30 }}
+          animate={{ opacity: 1, x: 0 }}
+          transition={{ delay: 0.1 }}
+        >
+          <p className="text-muted-foreground">
+            Tap along to the metronome with your tap keys, Space or the pad below. Listen rather
+            than watch: the offset is how late the sound reaches you.
+          </p>
+
+          <button
+            className={`w-full h-48 rounded-xl border-2 border-dashed transition-colors ${
+              isRunning ? 'border-primary bg-primary/10 active:bg-primary/20' : 'border-border/50 bg-muted/30'
+            }`}
+            onPointerDown={tap}
+            disabled={!isRunning}
+          >
+            <span className="font-display text-2xl font-bold">
+              {isRunning ? 'TAP' : 'Press start'}
+            </span>
+          </button>
+
+          <Progress value={(beat / BEATS) * 100} className="h-2" />
+
+          <div className="grid grid-cols-3 gap-4 text-center">
+            <div>
+              <div className="text-2xl font-display font-bold text-primary">{taps.length}</div>
+              <div className="text-xs text-muted-foreground">Taps</div>
+            </div>
+            <div>
+              <div className="text-2xl font-display font-bold text-gold">
+                {taps.length > 0 ? formatHitError(mean) : '-'}
+              </div>
+              <div className="text-xs text-muted-foreground">Average</div>
+            </div>
+            <div>
+              <div className="text-2xl font-display font-bold text-secondary">
+                {taps.length > 0 ? `±${spread.toFixed(1)}ms` : '-'}
+              </div>
+              <div className="text-xs text-muted-foreground">Spread</div>
+            </div>
+          </div>
+
+          <div className="flex flex-wrap justify-center gap-4">
+            {isRunning ? (
+              <Button variant="outline" size="lg" onClick={stop}>
+                <Square className="w-5 h-5 mr-2" />
+                Stop
+              </Button>
+            ) : (
+              <Button variant="neon" size="lg" onClick={start}>
+                <Play className="w-5 h-5 mr-2" />
+                {taps.length > 0 ? 'Again' : 'Start'}
+              </Button>
+            )}
+            <Button variant="hero" size="lg" onClick={save} disabled={isRunning || taps.length < MIN_TAPS}>
+              <Check className="w-5 h-5 mr-2" />
+              Use {Math.round(mean) > 0 ? '+' : ''}{Math.round(mean)}ms
+            </Button>
+          </div>
+
+          <p className="text-xs text-center text-muted-foreground">
+            Current offset: {settings.globalOffset > 0 ? '+' : ''}{settings.globalOffset}ms
+          </p>
+        </motion.section>
+      </div>
+    </div>
+  );
+};
@@ -1,9 +1,26 @@
 import { useRef, useEffect, useCallback, useState, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { ArrowLeft, Play, Pause, SkipForward, SkipBack } from 'lucide-react';
+import { ArrowLeft, Play, Pause, SkipForward, SkipBack, Download, AlertTriangle, CheckCircle2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
-import { Beatmap, HitCircle, Slider, Spinner, Replay, ReplayFrame } from '@/types/game';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Beatmap, HitCircle, Slider, Spinner, Replay, GameState } from '@/types/game';
 import { audioEngine } from '@/lib/audioEngine';
+import { getBeatmapOffset } from '@/lib/beatmapOffsets';
+import { getSliderPath } from '@/lib/sliderCurve';
+import { getKiaiPulse } from '@/lib/timing';
+import { useSettings } from '@/hooks/use-settings';
+import { exportOsrFile } from '@/lib/osrParser';
+import { ReplaySimulation, simulateReplay } from '@/lib/replaySimulation';
+import { findFrameIndex, getCursorAtTime } from '@/lib/replayFrames';
+import { ReplayTimeline } from './ReplayTimeline';
+import { toast } from 'sonner';
+import {
+  getHiddenCircleAlpha,
+  getHiddenSliderBodyAlpha,
+  getFlashlightRadius,
+  getFlashlightOpacity,
+  drawFlashlight,
+} from '@/lib/modVisuals';
 
 interface ReplayPlayerProps {
   beatmap: Beatmap;
@@ -13,6 +30,15 @@ interface ReplayPlayerProps {
 
 const PLAYFIELD_WIDTH = 512;
 const PLAYFIELD_HEIGHT = 384;
+const PLAYBACK_SPEEDS = [0.25, 0.5, 0.75, 1, 1.5, 2];
+// Cursor trail: how far back it reaches (ms) and how many dots it draws
+const TRAIL_LENGTH = 120;
+const TRAIL_SAMPLES = 12;
+
+const formatSongTime = (ms: number): string => {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+};
 
 export const ReplayPlayer = ({ beatmap, replay, onBack }: ReplayPlayerProps) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
@@ -23,18 +49,58 @@ export const ReplayPlayer = ({ beatmap, replay, onBack }: ReplayPlayerProps) =>
   const [isPaused, setIsPaused] = useState(false);
   const [isPlaying, setIsPlaying] = useState(false);
   const [currentTime, setCurrentTime] = useState(0);
-  const [cursorPos, setCursorPos] = useState({ x: 256, y: 192 });
+  const [cursorPos, setCursorPos] = useState({ x: 256, y: 192, keys: 0 });
+  const [gameState, setGameState] = useState<GameState | null>(null);
+  const [speed, setSpeed] = useState(1);
+  const stateUpdateCounterRef = useRef(0);
+  const { backgroundDim, cursorSize, globalOffset } = useSettings();
+
+  // Re-judges the replay on the audio clock
+  const simulation = useMemo(() => new ReplaySimulation(beatmap, replay), [beatmap, replay]);
+  // A run to the end up front gives the timeline markers and the desync check
+  const fullRun = useMemo(() => simulateReplay(beatmap, replay), [beatmap, replay]);
+  const desync = fullRun.getDesync();
+  const isVerified = fullRun.isFinished() && !desync;
+
+  // Replays start where the live game did, before the song for its lead-in
+  const leadIn = useMemo(() => simulation.getEngine().getLeadIn(), [simulation]);
+
+  const modRate = replay.mods.includes('dt') ? 1.5 : replay.mods.includes('ht') ? 0.75 : 1;
+  const duration = useMemo(() => {
+    const lastObject = beatmap.hitObjects[beatmap.hitObjects.length - 1];
+    const lastObjectEnd = !lastObject
+      ? 0
+      : lastObject.type === 'slider'
+        ? lastObject.time + lastObject.duration
+        : lastObject.type === 'spinner'
+          ? lastObject.endTime
+          : lastObject.time;
+    return audioEngine.getDuration() || lastObjectEnd + 2000;
+  }, [beatmap.hitObjects]);
 
   const comboColors = useMemo(() => beatmap.comboColors, [beatmap.comboColors]);
+  const sliderColors = useMemo(
+    () => ({ track: beatmap.sliderTrackOverride, border: beatmap.sliderBorder ?? '#ffffff' }),
+    [beatmap.sliderTrackOverride, beatmap.sliderBorder]
+  );
+  const hidden = useMemo(() => replay.mods.includes('hd'), [replay.mods]);
+  const flashlight = useMemo(() => replay.mods.includes('fl'), [replay.mods]);
   
-  // Calculate approach time and radius from beatmap
+  // Calculate approach time and radius from beatmap, with the same mod adjustments as GameEngine
   const approachTime = useMemo(() => {
-    const ar = beatmap.approachRate;
+    let ar = beatmap.approachRate;
+    if (replay.mods.includes('ez')) ar *= 0.5;
+    if (replay.mods.includes('hr')) ar = Math.min(10, ar * 1.4);
     if (ar < 5) return 1800 - ar * 120;
     return 1200 - (ar - 5) * 150;
-  }, [beatmap.approachRate]);
+  }, [beatmap.approachRate, replay.mods]);
 
-  const circleRadius = useMemo(() => 54.4 - 4.48 * beatmap.circleSize, [beatmap.circleSize]);
+  const circleRadius = useMemo(() => {
+    let cs = beatmap.circleSize;
+    if (replay.mods.includes('ez')) cs *= 0.5;
+    if (replay.mods.includes('hr')) cs = Math.min(10, cs * 1.3);
+    return 54.4 - 4.48 * cs;
+  }, [beatmap.circleSize, replay.mods]);
 
   useEffect(() => {
     const updateScale = () => {
@@ -62,8 +128,44 @@ export const ReplayPlayer = ({ beatmap, replay, onBack }: ReplayPlayerProps) =>
   const startReplay = useCallback(() => {
     setIsPlaying(true);
     setIsPaused(false);
-    audioEngine.play(0);
-  }, []);
+    audioEngine.play(-leadIn);
+  }, [leadIn]);
+
+  // Playback speed scales on top of the replay's own DT/HT rate
+  useEffect(() => {
+    audioEngine.setPlaybackRate(modRate * speed);
+  }, [modRate, speed]);
+
+  // Frames are in song time as heard, so the audio clock runs ahead of them
+  // by the offsets and output latency, the same way GameEngine judges hits
+  const getClockDelay = useCallback(
+    () => (globalOffset + getBeatmapOffset(beatmap.md5) + audioEngine.getOutputLatency()) * modRate * speed,
+    [globalOffset, beatmap.md5, modRate, speed]
+  );
+
+  // Bring the cursor, simulation and HUD to a song time
+  const syncToTime = useCallback((time: number) => {
+    setCurrentTime(time);
+
+    const frame = getCursorAtTime(replay.frames, time);
+    if (frame) {
+      setCursorPos({ x: frame.x, y: frame.y, keys: frame.keys });
+    }
+
+    simulation.seek(time);
+    // Throttle HUD updates like the live game does
+    stateUpdateCounterRef.current++;
+    if (stateUpdateCounterRef.current % 3 === 0) {
+      setGameState(simulation.getGameState());
+    }
+  }, [replay.frames, simulation]);
+
+  const seekTo = useCallback((time: number) => {
+    const clampedTime = Math.max(-leadIn, Math.min(duration, time));
+    audioEngine.seekTo(clampedTime + getClockDelay());
+    syncToTime(clampedTime);
+    setGameState(simulation.getGameState());
+  }, [leadIn, duration, syncToTime, simulation, getClockDelay]);
 
   useEffect(() => {
     // Auto-start after a brief delay
@@ -79,19 +181,13 @@ export const ReplayPlayer = ({ beatmap, replay, onBack }: ReplayPlayerProps) =>
     const canvas = canvasRef.current;
     if (!canvas) return;
 
-    const ctx = canvas.getContext('2d', { alpha: false });
+    // Transparent so the background dim layer shows through
+    const ctx = canvas.getContext('2d');
     if (!ctx) return;
 
     const render = () => {
       if (!isPaused && isPlaying) {
-        const time = audioEngine.getCurrentTime();
-        setCurrentTime(time);
-        
-        // Find current cursor position from replay
-        const frame = findFrameAtTime(replay.frames, time);
-        if (frame) {
-          setCursorPos({ x: frame.x, y: frame.y });
-        }
+        syncToTime(audioEngine.getCurrentTime() - getClockDelay());
       }
       
       drawGame(ctx);
@@ -102,22 +198,12 @@ export const ReplayPlayer = ({ beatmap, replay, onBack }: ReplayPlayerProps) =>
     return () => {
       if (animationRef.current) cancelAnimationFrame(animationRef.current);
     };
-  }, [isPaused, isPlaying, replay.frames]);
-
-  const findFrameAtTime = (frames: ReplayFrame[], time: number): ReplayFrame | null => {
-    if (frames.length === 0) return null;
-    
-    for (let i = frames.length - 1; i >= 0; i--) {
-      if (frames[i].time <= time) return frames[i];
-    }
-    return frames[0];
-  };
+  }, [isPaused, isPlaying, syncToTime, getClockDelay]);
 
   const drawGame = useCallback((ctx: CanvasRenderingContext2D) => {
     const canvas = ctx.canvas;
     
-    ctx.fillStyle = '#0a0a0f';
-    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
 
     ctx.save();
     ctx.translate(offset.x, offset.y);
@@ -126,30 +212,64 @@ export const ReplayPlayer = ({ beatmap, replay, onBack }: ReplayPlayerProps) =>
     ctx.fillStyle = 'rgba(0, 0, 0, 0.3)';
     ctx.fillRect(0, 0, PLAYFIELD_WIDTH, PLAYFIELD_HEIGHT);
 
-    // Draw hit objects
+    drawKiaiFlash(ctx, getKiaiPulse(beatmap.timingPoints, currentTime));
+
+    // Draw hit objects the simulation has not judged yet
+    const engine = simulation.getEngine();
+    const processedObjects = engine.getProcessedObjects();
     const objectCount = beatmap.hitObjects.length;
     
     for (let i = objectCount - 1; i >= 0; i--) {
+      if (processedObjects.has(i)) continue;
       const obj = beatmap.hitObjects[i];
       const timeUntilHit = obj.time - currentTime;
       
-      if (timeUntilHit > approachTime || timeUntilHit < -300) continue;
+      if (timeUntilHit > approachTime) continue;
+      // Sliders stay on screen for their whole duration
+      const visibleUntil = obj.type === 'slider' ? -(obj as Slider).duration - 300 : -300;
+      if (timeUntilHit < visibleUntil) continue;
       
       const approachProgress = Math.max(0, Math.min(1, 1 - timeUntilHit / approachTime));
       const comboColor = comboColors[obj.comboColor % comboColors.length];
+      const hiddenAlpha = hidden ? getHiddenCircleAlpha(timeUntilHit, approachTime) : undefined;
       
       if (obj.type === 'circle') {
-        drawHitCircle(ctx, obj as HitCircle, circleRadius, approachProgress, comboColor);
+        drawHitCircle(ctx, obj as HitCircle, circleRadius, approachProgress, comboColor, hiddenAlpha);
       } else if (obj.type === 'slider') {
-        drawSlider(ctx, obj as Slider, circleRadius, approachProgress, comboColor);
+        const slider = obj as Slider;
+        const hiddenFade = hidden
+          ? { head: hiddenAlpha, body: getHiddenSliderBodyAlpha(timeUntilHit, approachTime, slider.duration) }
+          : undefined;
+        drawSlider(ctx, slider, circleRadius, approachProgress, comboColor, hiddenFade);
       } else if (obj.type === 'spinner') {
         drawSpinner(ctx, obj as Spinner, currentTime);
       }
     }
 
+    drawJudgements(ctx);
+
+    if (flashlight) {
+      const sliderHeld = Array.from(engine.getActiveSliders().values()).some(s => s.isHeld);
+      const combo = simulation.getGameState().combo;
+      drawFlashlight(ctx, cursorPos.x, cursorPos.y, getFlashlightRadius(combo), getFlashlightOpacity(currentTime, beatmap.breaks), sliderHeld);
+    }
+
+    // Cursor trail, fading out behind the cursor
+    for (let i = TRAIL_SAMPLES; i > 0; i--) {
+      const point = getCursorAtTime(replay.frames, currentTime - (i * TRAIL_LENGTH) / TRAIL_SAMPLES);
+      if (!point) break;
+      const fade = 1 - i / (TRAIL_SAMPLES + 1);
+      ctx.globalAlpha = fade * 0.5;
+      ctx.beginPath();
+      ctx.arc(point.x, point.y, 8 * cursorSize * (0.5 + fade * 0.5), 0, Math.PI * 2);
+      ctx.fillStyle = '#00f0ff';
+      ctx.fill();
+    }
+    ctx.globalAlpha = 1;
+
     // Draw replay cursor
     ctx.beginPath();
-    ctx.arc(cursorPos.x, cursorPos.y, 8, 0, Math.PI * 2);
+    ctx.arc(cursorPos.x, cursorPos.y, 8 * cursorSize, 0, Math.PI * 2);
     ctx.fillStyle = '#ffffff';
     ctx.fill();
     ctx.shadowColor = '#00f0ff';
@@ -158,12 +278,69 @@ export const ReplayPlayer = ({ beatmap, replay, onBack }: ReplayPlayerProps) =>
     ctx.shadowBlur = 0;
 
     ctx.restore();
-  }, [beatmap.hitObjects, comboColors, scale, offset, currentTime, cursorPos, approachTime, circleRadius]);
+  }, [beatmap.hitObjects, beatmap.breaks, beatmap.timingPoints, comboColors, sliderColors, hidden, flashlight, scale, offset, currentTime, cursorPos, cursorSize, approachTime, circleRadius, simulation, replay.frames]);
 
-  const drawHitCircle = (ctx: CanvasRenderingContext2D, circle: HitCircle, radius: number, approach: number, color: string) => {
-    const alpha = Math.min(1, approach * 2);
+  // Judgement popups, aged by song time so they pause with the replay
+  const drawJudgements = (ctx: CanvasRenderingContext2D) => {
+    const judgements = simulation.getJudgements();
+
+    for (let i = judgements.length - 1; i >= 0; i--) {
+      const judgement = judgements[i];
+      const age = currentTime - judgement.time;
+      if (age > 500) break;
+      if (age < 0) continue;
+
+      const alpha = 1 - age / 500;
+      const y = judgement.y - age * 0.1 / scale;
+
+      ctx.globalAlpha = alpha;
+      ctx.font = `bold ${28 / scale}px Orbitron`;
+      ctx.textAlign = 'center';
+
+      let text = '';
+      let color = '';
+
+      switch (judgement.result) {
+        case 'perfect':
+          text = '300';
+          color = '#00f0ff';
+          break;
+        case 'great':
+          text = '100';
+          color = '#00ff88';
+          break;
+        case 'good':
+          text = '50';
+          color = '#ffaa00';
+          break;
+        case 'miss':
+          text = 'MISS';
+          color = '#ff4444';
+          break;
+      }
+
+      ctx.fillStyle = color;
+      ctx.fillText(text, judgement.x, y);
+    }
+    ctx.globalAlpha = 1;
+  };
+
+  const drawKiaiFlash = (ctx: CanvasRenderingContext2D, pulse: number) => {
+    if (pulse <= 0) return;
+    ctx.fillStyle = `rgba(255, 255, 255, ${pulse * 0.06})`;
+    ctx.fillRect(0, 0, PLAYFIELD_WIDTH, PLAYFIELD_HEIGHT);
+    ctx.strokeStyle = '#ff2d95';
+    ctx.lineWidth = 3;
+    ctx.globalAlpha = 0.2 + pulse * 0.5;
+    ctx.strokeRect(0, 0, PLAYFIELD_WIDTH, PLAYFIELD_HEIGHT);
+    ctx.globalAlpha = 1;
+  };
+
+  const drawHitCircle = (ctx: CanvasRenderingContext2D, circle: HitCircle, radius: number, approach: number, color: string, hiddenAlpha?: number) => {
+    // Hidden replaces the normal fade-in and removes the approach circle
+    const alpha = hiddenAlpha ?? Math.min(1, approach * 2);
     
-    if (approach < 1) {
+    if (approach < 1 && hiddenAlpha === undefined) {
       const approachRadius = radius + (radius * 2) * (1 - approach);
       ctx.beginPath();
       ctx.arc(circle.x, circle.y, approachRadius, 0, Math.PI * 2);
@@ -191,20 +368,28 @@ export const ReplayPlayer = ({ beatmap, replay, onBack }: ReplayPlayerProps) =>
     ctx.globalAlpha = 1;
   };
 
-  const drawSlider = (ctx: CanvasRenderingContext2D, slider: Slider, radius: number, approach: number, color: string) => {
+  const drawSlider = (ctx: CanvasRenderingContext2D, slider: Slider, radius: number, approach: number, color: string, hiddenFade?: { head: number; body: number }) => {
     const alpha = Math.min(1, approach * 2);
+    const bodyAlpha = hiddenFade ? hiddenFade.body : alpha;
     ctx.globalAlpha = alpha;
 
+    const pathPoints = getSliderPath(slider).points;
     ctx.beginPath();
-    ctx.moveTo(slider.x, slider.y);
-    for (const point of slider.curvePoints) {
-      ctx.lineTo(point.x, point.y);
+    ctx.moveTo(pathPoints[0].x, pathPoints[0].y);
+    for (let i = 1; i < pathPoints.length; i++) {
+      ctx.lineTo(pathPoints[i].x, pathPoints[i].y);
     }
-    ctx.strokeStyle = color;
-    ctx.lineWidth = radius * 2;
+    // Border underneath, then the body, as in GameCanvas
+    ctx.strokeStyle = sliderColors.border;
+    ctx.lineWidth = radius * 2 + 4;
     ctx.lineCap = 'round';
     ctx.lineJoin = 'round';
-    ctx.globalAlpha = alpha * 0.5;
+    ctx.globalAlpha = bodyAlpha * 0.3;
+    ctx.stroke();
+
+    ctx.strokeStyle = sliderColors.track ?? color;
+    ctx.lineWidth = radius * 2;
+    ctx.globalAlpha = bodyAlpha * 0.5;
     ctx.stroke();
     
     ctx.globalAlpha = alpha;
@@ -215,7 +400,7 @@ export const ReplayPlayer = ({ beatmap, replay, onBack }: ReplayPlayerProps) =>
       time: slider.time,
       comboNumber: slider.comboNumber,
       comboColor: slider.comboColor,
-    }, radius, approach, color);
+    }, radius, approach, color, hiddenFade?.head);
 
     ctx.globalAlpha = 1;
   };
@@ -246,13 +431,71 @@ export const ReplayPlayer = ({ beatmap, replay, onBack }: ReplayPlayerProps) =>
     ctx.fill();
   };
 
-  const togglePause = () => {
+  const togglePause = useCallback(() => {
     if (isPaused) {
       audioEngine.resume();
     } else {
       audioEngine.pause();
     }
     setIsPaused(!isPaused);
+  }, [isPaused]);
+
+  // Pause and move to the previous or next recorded frame
+  const stepFrame = useCallback((direction: 1 | -1) => {
+    const frames = replay.frames;
+    if (frames.length === 0) return;
+    if (!isPaused) {
+      audioEngine.pause();
+      setIsPaused(true);
+    }
+
+    let index = findFrameIndex(frames, currentTime);
+    if (direction > 0) {
+      index++;
+    } else {
+      // Key presses are recorded at the same time as the frame before them,
+      // so step past every frame at the current time
+      while (index >= 0 && frames[index].time >= currentTime) index--;
+    }
+    const frame = frames[Math.max(0, Math.min(frames.length - 1, index))];
+    seekTo(frame.time);
+  }, [replay.frames, isPaused, currentTime, seekTo]);
+
+  // Space pauses, arrow keys step through frames
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!isPlaying) return;
+      if (e.code === 'Space') {
+        e.preventDefault();
+        togglePause();
+      } else if (e.code === 'ArrowLeft') {
+        e.preventDefault();
+        stepFrame(-1);
+      } else if (e.code === 'ArrowRight') {
+        e.preventDefault();
+        stepFrame(1);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isPlaying, togglePause, stepFrame]);
+
+  // Export as a standard osu! .osr replay
+  const handleExportOsr = () => {
+    try {
+      const blob = new Blob([exportOsrFile(replay, beatmap)], { type: 'application/octet-stream' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${replay.playerName} - ${beatmap.artist} - ${beatmap.title} [${beatmap.version}].osr`;
+      a.click();
+      URL.revokeObjectURL(url);
+      toast.success('Replay exported as .osr!');
+    } catch (err) {
+      console.error('Replay export error:', err);
+      toast.error('Failed to export replay');
+    }
   };
 
   return (
@@ -264,22 +507,64 @@ export const ReplayPlayer = ({ beatmap, replay, onBack }: ReplayPlayerProps) =>
             <ArrowLeft className="w-5 h-5 mr-2" />
             Back
           </Button>
+          <Button variant="ghost" onClick={handleExportOsr}>
+            <Download className="w-5 h-5 mr-2" />
+            Export .osr
+          </Button>
         </div>
         
-        <div className="neon-box rounded-lg px-4 py-2">
-          <div className="text-xl font-display font-bold text-primary">REPLAY</div>
-          <div className="text-sm text-muted-foreground">
-            {replay.playerName} • {replay.accuracy.toFixed(2)}%
+        <div className="flex-1 max-w-md mx-8 flex flex-col items-center gap-2">
+          <div className="neon-box rounded-lg px-4 py-2 text-center">
+            <div className="text-xl font-display font-bold text-primary">REPLAY</div>
+            <div className="text-sm text-muted-foreground">
+              {replay.playerName} • {replay.score.toLocaleString()} • {replay.accuracy.toFixed(2)}%
+            </div>
+            {desync ? (
+              <div
+                className="flex items-center justify-center gap-1 text-xs text-destructive mt-1"
+                title={`Expected ${desync.expected}, re-simulated ${desync.actual}`}
+              >
+                <AlertTriangle className="w-3 h-3" />
+                Desync at {formatSongTime(desync.time)} ({desync.field})
+              </div>
+            ) : isVerified && (
+              <div className="flex items-center justify-center gap-1 text-xs text-green-400 mt-1">
+                <CheckCircle2 className="w-3 h-3" />
+                Result matches replay
+              </div>
+            )}
+          </div>
+
+          {/* HP Bar */}
+          <div className="w-full h-3 bg-muted rounded-full overflow-hidden border border-border">
+            <div
+              className="h-full transition-all duration-100"
+              style={{
+                width: `${gameState?.hp ?? 100}%`,
+                background: (gameState?.hp ?? 100) > 30
+                  ? 'linear-gradient(90deg, #22c55e, #4ade80)'
+                  : 'linear-gradient(90deg, #ef4444, #f87171)'
+              }}
+            />
           </div>
         </div>
         
-        <div className="neon-box rounded-lg px-4 py-2">
+        <div className="neon-box rounded-lg px-4 py-2 text-right">
           <div className="text-2xl font-display font-bold text-gradient-gold">
-            {replay.score.toLocaleString()}
+            {gameState?.score.toLocaleString() || 0}
+          </div>
+          <div className="text-sm text-muted-foreground">
+            {gameState?.accuracy.toFixed(2) || 100}% • <span className="neon-text">{gameState?.combo || 0}x</span>
           </div>
         </div>
       </div>
 
+      {/* Background dim */}
+      <div
+        className="absolute inset-0 bg-black pointer-events-none"
+        style={{ opacity: backgroundDim / 100 }}
+      />
+
       <canvas
         ref={canvasRef}
         width={PLAYFIELD_WIDTH * scale + offset.x * 2}
@@ -287,40 +572,56 @@ export const ReplayPlayer = ({ beatmap, replay, onBack }: ReplayPlayerProps) =>
         className="absolute inset-0 w-full h-full"
       />
 
-      {/* Pause overlay */}
+      {/* Paused indicator; the playfield stays visible for frame-by-frame review */}
       <AnimatePresence>
         {isPaused && (
           <motion.div
-            className="absolute inset-0 flex items-center justify-center bg-background/90 z-20"
-            initial={{ opacity: 0 }}
-            animate={{ opacity: 1 }}
-            exit={{ opacity: 0 }}
+            className="absolute bottom-20 left-1/2 -translate-x-1/2 z-10 neon-box rounded-lg px-4 py-1 text-sm font-display pointer-events-none"
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: 10 }}
           >
-            <div className="flex flex-col items-center gap-6">
-              <h2 className="text-4xl font-display font-bold">PAUSED</h2>
-              <div className="flex gap-4">
-                <Button variant="hero" size="lg" onClick={togglePause}>
-                  <Play className="w-5 h-5 mr-2" />
-                  Resume
-                </Button>
-                <Button variant="outline" size="lg" onClick={onBack}>
-                  Exit
-                </Button>
-              </div>
-            </div>
+            PAUSED • ← → step frames
           </motion.div>
         )}
       </AnimatePresence>
 
       {/* Controls */}
-      <Button
-        variant="glass"
-        size="icon"
-        className="absolute bottom-4 right-4 z-10"
-        onClick={togglePause}
-      >
-        {isPaused ? <Play className="w-5 h-5" /> : <Pause className="w-5 h-5" />}
-      </Button>
+      <div className="absolute bottom-4 left-4 right-4 z-10 glass-panel rounded-xl px-3 py-2 flex items-center gap-2">
+        <Button variant="ghost" size="icon" onClick={() => stepFrame(-1)} disabled={!isPlaying} title="Previous frame">
+          <SkipBack className="w-5 h-5" />
+        </Button>
+        <Button variant="ghost" size="icon" onClick={togglePause} disabled={!isPlaying}>
+          {isPaused ? <Play className="w-5 h-5" /> : <Pause className="w-5 h-5" />}
+        </Button>
+        <Button variant="ghost" size="icon" onClick={() => stepFrame(1)} disabled={!isPlaying} title="Next frame">
+          <SkipForward className="w-5 h-5" />
+        </Button>
+
+        <span className="font-mono text-xs sm:text-sm min-w-[45px]">
+          {formatSongTime(currentTime)}
+        </span>
+        <ReplayTimeline
+          currentTime={currentTime}
+          duration={duration}
+          judgements={fullRun.getJudgements()}
+          onSeek={seekTo}
+        />
+        <span className="font-mono text-xs sm:text-sm text-muted-foreground min-w-[45px]">
+          {formatSongTime(duration)}
+        </span>
+
+        <Select value={speed.toString()} onValueChange={value => setSpeed(Number(value))}>
+          <SelectTrigger className="h-8 w-[80px] text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {PLAYBACK_SPEEDS.map(option => (
+              <SelectItem key={option} value={option.toString()}>{option}x</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
     </div>
   );
 };
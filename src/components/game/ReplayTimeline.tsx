@@ -0,0 +1,112 @@
+import { useRef, useCallback, useEffect, useState, useMemo } from 'react';
+import { HitJudgement, HitResult } from '@/types/game';
+
+// Perfect hits are left off so the timeline only shows what needs review
+const MARKER_COLORS: Partial<Record<HitResult, string>> = {
+  great: '#00ff88',
+  good: '#ffaa00',
+  miss: '#ff4444',
+};
+
+interface ReplayTimelineProps {
+  currentTime: number;
+  duration: number;
+  judgements: HitJudgement[];
+  onSeek: (time: number) => void;
+}
+
+export const ReplayTimeline = ({ currentTime, duration, judgements, onSeek }: ReplayTimelineProps) => {
+  const trackRef = useRef<HTMLDivElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+
+  const markers = useMemo(
+    () => judgements.filter(judgement => MARKER_COLORS[judgement.result]),
+    [judgements]
+  );
+
+  // Calculate position from mouse/touch event
+  const getTimeFromEvent = useCallback((clientX: number): number => {
+    if (!trackRef.current) return 0;
+    const rect = trackRef.current.getBoundingClientRect();
+    const percent = Math.max(0, Math.min(1, (clientX - rect.left) / rect.width));
+    return percent * duration;
+  }, [duration]);
+
+  const handleMouseDown = useCallback((e: React.MouseEvent) => {
+    e.preventDefault();
+    setIsDragging(true);
+    onSeek(getTimeFromEvent(e.clientX));
+  }, [getTimeFromEvent, onSeek]);
+
+  const handleTouchStart = useCallback((e: React.TouchEvent) => {
+    e.preventDefault();
+    setIsDragging(true);
+    onSeek(getTimeFromEvent(e.touches[0].clientX));
+  }, [getTimeFromEvent, onSeek]);
+
+  // Global move/up handlers while scrubbing
+  useEffect(() => {
+    if (!isDragging) return;
+
+    const handleMouseMove = (e: MouseEvent) => {
+      onSeek(getTimeFromEvent(e.clientX));
+    };
+
+    const handleTouchMove = (e: TouchEvent) => {
+      e.preventDefault();
+      onSeek(getTimeFromEvent(e.touches[0].clientX));
+    };
+
+    const handleEnd = () => {
+      setIsDragging(false);
+    };
+
+    document.addEventListener('mousemove', handleMouseMove);
+    document.addEventListener('mouseup', handleEnd);
+    document.addEventListener('touchmove', handleTouchMove, { passive: false });
+    document.addEventListener('touchend', handleEnd);
+
+    return () => {
+      document.removeEventListener('mousemove', handleMouseMove);
+      document.removeEventListener('mouseup', handleEnd);
+      document.removeEventListener('touchmove', handleTouchMove);
+      document.removeEventListener('touchend', handleEnd);
+    };
+  }, [isDragging, getTimeFromEvent, onSeek]);
+
+  // Held at the start during the lead-in, before song time 0
+  const playheadPercent = duration > 0 ? Math.max(0, Math.min(100, (currentTime / duration) * 100)) : 0;
+
+  return (
+    <div
+      ref={trackRef}
+      className="flex-1 h-6 bg-muted rounded-full cursor-pointer relative select-none touch-none overflow-hidden"
+      onMouseDown={handleMouseDown}
+      onTouchStart={handleTouchStart}
+    >
+      {/* Progress fill */}
+      <div
+        className="absolute top-0 left-0 h-full bg-primary/30 pointer-events-none"
+        style={{ width: `${playheadPercent}%` }}
+      />
+
+      {/* Hit error and miss markers */}
+      {markers.map((judgement, i) => (
+        <div
+          key={i}
+          className="absolute top-1 bottom-1 w-0.5 rounded pointer-events-none"
+          style={{
+            left: `${(judgement.hitObject.time / duration) * 100}%`,
+            background: MARKER_COLORS[judgement.result],
+          }}
+        />
+      ))}
+
+      {/* Playhead line */}
+      <div
+        className="absolute top-0 bottom-0 w-1 -translate-x-1/2 bg-primary pointer-events-none"
+        style={{ left: `${playheadPercent}%` }}
+      />
+    </div>
+  );
+};
@@ -1,7 +1,11 @@
 import { motion } from 'framer-motion';
-import { Trophy, Target, Zap, XCircle, ArrowLeft, RotateCcw, Play } from 'lucide-react';
+import { useMemo } from 'react';
+import { Trophy, Target, Zap, XCircle, ArrowLeft, RotateCcw, Play, TrendingUp } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { GameState, Beatmap } from '@/types/game';
+import { getGrade, getGradeColor, formatHitError } from '@/types/score';
+import { calculateDifficulty } from '@/lib/difficultyCalculator';
+import { calculatePerformance, calculateFullComboPerformance } from '@/lib/performanceCalculator';
 
 interface ResultsScreenProps {
   state: GameState;
@@ -13,22 +17,17 @@ interface ResultsScreenProps {
 }
 
 export const ResultsScreen = ({ state, beatmap, mods, onBack, onRetry, onWatchReplay }: ResultsScreenProps) => {
-  const getRank = () => {
-    const totalObjects = beatmap.hitObjects.length;
-    const baseMaxScore = totalObjects * 300;
-    const comboBonus = Math.min(state.maxCombo / Math.max(totalObjects, 1), 1);
-    const scoreRatio = Math.min(state.score / Math.max(baseMaxScore, 1), 1);
-    const performance = (scoreRatio * 0.7) + (comboBonus * 0.3);
-    
-    if (performance >= 0.98 && state.maxCombo >= totalObjects) return { grade: 'SS', color: 'text-gold' };
-    if (performance >= 0.90) return { grade: 'S', color: 'text-gold' };
-    if (performance >= 0.80) return { grade: 'A', color: 'text-secondary' };
-    if (performance >= 0.65) return { grade: 'B', color: 'text-accent' };
-    if (performance >= 0.50) return { grade: 'C', color: 'text-primary' };
-    return { grade: 'D', color: 'text-destructive' };
-  };
-
-  const rank = getRank();
+  const grade = getGrade(state.accuracy, state.missCount);
+  const performance = useMemo(() => {
+    const difficulty = calculateDifficulty(beatmap, mods);
+    return {
+      pp: calculatePerformance(difficulty, state, mods).total,
+      // Only worth showing when the combo broke somewhere
+      fullComboPp: state.missCount > 0 || state.maxCombo < difficulty.maxCombo
+        ? calculateFullComboPerformance(difficulty, state, mods).total
+        : null,
+    };
+  }, [beatmap, mods, state]);
 
   return (
     <div className="min-h-screen bg-background flex flex-col items-center justify-center p-4">
@@ -71,11 +70,25 @@ export const ResultsScreen = ({ state, beatmap, mods, onBack, onRetry, onWatchRe
           animate={{ scale: 1 }}
           transition={{ delay: 0.4, type: "spring", stiffness: 200 }}
         >
-          <div className={`text-9xl font-display font-black ${rank.color}`}>
-            {rank.grade}
+          <div className={`text-9xl font-display font-black ${getGradeColor(grade)}`}>
+            {grade}
           </div>
         </motion.div>
 
+        {/* Performance */}
+        <motion.div 
+          className="flex justify-center items-baseline gap-3 mb-8"
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          transition={{ delay: 0.45 }}
+        >
+          <TrendingUp className="w-6 h-6 text-gold self-center" />
+          <span className="text-4xl font-display font-bold text-gold">{Math.round(performance.pp)}pp</span>
+          {performance.fullComboPp !== null && (
+            <span className="text-muted-foreground">{Math.round(performance.fullComboPp)}pp if FC</span>
+          )}
+        </motion.div>
+
         {/* Stats grid */}
         <motion.div 
           className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-8"
@@ -130,6 +143,25 @@ export const ResultsScreen = ({ state, beatmap, mods, onBack, onRetry, onWatchRe
           </div>
         </motion.div>
 
+        {/* Timing */}
+        {state.unstableRate > 0 && (
+          <motion.div 
+            className="flex justify-center gap-8 mb-8 text-sm"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            transition={{ delay: 0.85 }}
+          >
+            <div className="text-center">
+              <div className="text-xl font-display font-bold">{state.unstableRate.toFixed(2)}</div>
+              <div className="text-xs text-muted-foreground">Unstable Rate</div>
+            </div>
+            <div className="text-center">
+              <div className="text-xl font-display font-bold">{formatHitError(state.meanHitError)}</div>
+              <div className="text-xs text-muted-foreground">Mean Hit Error</div>
+            </div>
+          </motion.div>
+        )}
+
         {/* Mods used */}
         {mods.length > 0 && (
           <motion.div 
@@ -1,8 +1,9 @@
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { ArrowLeft, Trophy, Trash2, Calendar, Target, Zap } from 'lucide-react';
+import { ArrowLeft, Trophy, Trash2, Calendar, Target, Zap, TrendingUp } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { getScores, deleteScore, clearScores } from '@/lib/scoreStorage';
+import { getProfilePerformance } from '@/lib/performanceCalculator';
 import { SavedScore, getGradeColor } from '@/types/score';
 
 interface ScoresScreenProps {
@@ -11,6 +12,7 @@ interface ScoresScreenProps {
 
 export const ScoresScreen = ({ onBack }: ScoresScreenProps) => {
   const [scores, setScores] = useState<SavedScore[]>(getScores());
+  const totalPp = useMemo(() => getProfilePerformance(scores), [scores]);
 
   const handleDelete = (id: string) => {
     deleteScore(id);
@@ -57,6 +59,12 @@ export const ScoresScreen = ({ onBack }: ScoresScreenProps) => {
               <Trophy className="w-8 h-8 text-gold" />
               <h1 className="text-3xl font-display font-bold">Scores</h1>
             </div>
+            {totalPp > 0 && (
+              <div className="flex items-center gap-2 text-gold" title="Best play on each map, weighted from the top">
+                <TrendingUp className="w-5 h-5" />
+                <span className="font-display font-bold text-xl">{Math.round(totalPp).toLocaleString()}pp</span>
+              </div>
+            )}
           </div>
           
           {scores.length > 0 && (
@@ -106,6 +114,7 @@ export const ScoresScreen = ({ onBack }: ScoresScreenProps) => {
                       <h3 className="font-semibold text-lg truncate">{score.beatmapName}</h3>
                       <p className="text-muted-foreground text-sm truncate">
                         {score.artist} • {score.difficulty}
+                        {score.starRating !== undefined && ` • ${score.starRating.toFixed(2)}★`}
                       </p>
                       {score.mods.length > 0 && (
                         <div className="flex flex-wrap gap-1 mt-1">
@@ -120,6 +129,14 @@ export const ScoresScreen = ({ onBack }: ScoresScreenProps) => {
 
                     {/* Stats */}
                     <div className="hidden md:flex items-center gap-6 text-sm">
+                      {score.pp !== undefined && (
+                        <div className="text-center">
+                          <div className="flex items-center gap-1 text-gold font-semibold">
+                            <TrendingUp className="w-3 h-3" />
+                            <span>{Math.round(score.pp)}pp</span>
+                          </div>
+                        </div>
+                      )}
                       <div className="text-center">
                         <div className="flex items-center gap-1 text-muted-foreground">
                           <Trophy className="w-3 h-3" />
@@ -159,6 +176,7 @@ export const ScoresScreen = ({ onBack }: ScoresScreenProps) => {
 
                   {/* Mobile stats */}
                   <div className="flex md:hidden items-center gap-4 mt-3 pt-3 border-t border-border/50 text-xs">
+                    {score.pp !== undefined && <span className="text-gold">{Math.round(score.pp)}pp</span>}
                     <span className="text-muted-foreground">{score.score.toLocaleString()}</span>
                     <span className="text-secondary">{score.accuracy.toFixed(2)}%</span>
                     <span className="text-primary">{score.maxCombo}x</span>
@@ -1,28 +1,56 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
-import { ArrowLeft, Volume2, Monitor, Sliders } from 'lucide-react';
+import { ArrowLeft, Volume2, Monitor, Sliders, Keyboard, RotateCcw, Timer } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Slider } from '@/components/ui/slider';
 import { Switch } from '@/components/ui/switch';
 import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { GameSettings, InputSettings, ScoringMode } from '@/types/game';
+import { formatKeyCode } from '@/lib/inputSettings';
+import { updateSettings, resetSettings } from '@/lib/settingsStore';
+import { useSettings } from '@/hooks/use-settings';
 
 interface SettingsPanelProps {
   onBack: () => void;
+  onCalibrate: () => void;
 }
 
-export const SettingsPanel = ({ onBack }: SettingsPanelProps) => {
-  const [settings, setSettings] = useState({
-    musicVolume: 80,
-    effectVolume: 100,
-    backgroundDim: 50,
-    showFps: false,
-    cursorSize: 1,
-  });
+export const SettingsPanel = ({ onBack, onCalibrate }: SettingsPanelProps) => {
+  const settings = useSettings();
+  const inputSettings = settings.input;
+  const [bindingKey, setBindingKey] = useState<'key1' | 'key2' | null>(null);
 
-  const updateSetting = (key: string, value: number | boolean) => {
-    setSettings(prev => ({ ...prev, [key]: value }));
+  const updateSetting = <K extends keyof GameSettings>(key: K, value: GameSettings[K]) => {
+    updateSettings({ [key]: value });
   };
 
+  const updateInputSetting = (patch: Partial<InputSettings>) => {
+    updateSettings({ input: { ...inputSettings, ...patch } });
+  };
+
+  // Capture the next key press while rebinding
+  useEffect(() => {
+    if (!bindingKey) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      e.preventDefault();
+      if (e.code !== 'Escape') {
+        // Swap bindings instead of mapping both taps to the same key
+        const other = bindingKey === 'key1' ? 'key2' : 'key1';
+        const patch: Partial<InputSettings> = { [bindingKey]: e.code };
+        if (inputSettings[other] === e.code) {
+          patch[other] = inputSettings[bindingKey];
+        }
+        updateSettings({ input: { ...inputSettings, ...patch } });
+      }
+      setBindingKey(null);
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [bindingKey, inputSettings]);
+
   return (
     <div className="min-h-screen bg-background p-4">
       {/* Header */}
@@ -76,6 +104,31 @@ export const SettingsPanel = ({ onBack }: SettingsPanelProps) => {
                 step={1}
               />
             </div>
+
+            <div>
+              <div className="flex justify-between mb-2">
+                <Label>Audio Offset</Label>
+                <span className="text-sm text-muted-foreground">
+                  {settings.globalOffset > 0 ? '+' : ''}{settings.globalOffset}ms
+                </span>
+              </div>
+              <Slider
+                value={[settings.globalOffset]}
+                onValueChange={([v]) => updateSetting('globalOffset', v)}
+                min={-300}
+                max={300}
+                step={1}
+              />
+              <div className="flex items-center justify-between mt-3">
+                <p className="text-xs text-muted-foreground">
+                  Raise it if your hits are late. Press + and - in game to adjust a single map.
+                </p>
+                <Button variant="outline" size="sm" onClick={onCalibrate}>
+                  <Timer className="w-4 h-4 mr-2" />
+                  Calibrate
+                </Button>
+              </div>
+            </div>
           </div>
         </motion.section>
 
@@ -131,7 +184,7 @@ export const SettingsPanel = ({ onBack }: SettingsPanelProps) => {
             <div>
               <div className="flex justify-between mb-2">
                 <Label>Cursor Size</Label>
-                <span className="text-sm text-muted-foreground">{settings.cursorSize}x</span>
+                <span className="text-sm text-muted-foreground">{settings.cursorSize.toFixed(1)}x</span>
               </div>
               <Slider
                 value={[settings.cursorSize]}
@@ -141,6 +194,69 @@ export const SettingsPanel = ({ onBack }: SettingsPanelProps) => {
                 step={0.1}
               />
             </div>
+
+            <div className="flex items-center justify-between">
+              <div>
+                <Label>Scoring Mode</Label>
+                <p className="text-xs text-muted-foreground">
+                  {settings.scoringMode === 'standardised'
+                    ? 'Every map is worth 1,000,000, from combo and accuracy'
+                    : 'Each hit is multiplied by your combo'}
+                </p>
+              </div>
+              <Select
+                value={settings.scoringMode}
+                onValueChange={(v) => updateSetting('scoringMode', v as ScoringMode)}
+              >
+                <SelectTrigger className="w-[160px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="classic">Classic</SelectItem>
+                  <SelectItem value="standardised">Standardised</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </motion.section>
+
+        {/* Input Settings */}
+        <motion.section
+          className="neon-box rounded-xl p-6"
+          initial={{ opacity: 0, x: -30 }}
+          animate={{ opacity: 1, x: 0 }}
+          transition={{ delay: 0.4 }}
+        >
+          <div className="flex items-center gap-3 mb-6">
+            <Keyboard className="w-6 h-6 text-primary" />
+            <h2 className="font-display text-xl font-bold">Input</h2>
+          </div>
+          
+          <div className="space-y-6">
+            {([
+              { key: 'key1', label: 'Tap Key 1' },
+              { key: 'key2', label: 'Tap Key 2' },
+            ] as const).map(({ key, label }) => (
+              <div key={key} className="flex items-center justify-between">
+                <Label>{label}</Label>
+                <Button
+                  variant={bindingKey === key ? 'default' : 'outline'}
+                  size="sm"
+                  className="min-w-[120px] font-mono"
+                  onClick={() => setBindingKey(bindingKey === key ? null : key)}
+                >
+                  {bindingKey === key ? 'Press a key...' : formatKeyCode(inputSettings[key])}
+                </Button>
+              </div>
+            ))}
+            
+            <div className="flex items-center justify-between">
+              <Label>Mouse Buttons Tap</Label>
+              <Switch
+                checked={inputSettings.mouseButtons}
+                onCheckedChange={(v) => updateInputSetting({ mouseButtons: v })}
+              />
+            </div>
           </div>
         </motion.section>
 
@@ -149,9 +265,13 @@ export const SettingsPanel = ({ onBack }: SettingsPanelProps) => {
           className="text-center text-sm text-muted-foreground"
           initial={{ opacity: 0 }}
           animate={{ opacity: 1 }}
-          transition={{ delay: 0.5 }}
+          transition={{ delay: 0.6 }}
         >
           <p>Settings are saved automatically</p>
+          <Button variant="ghost" size="sm" className="mt-2" onClick={resetSettings}>
+            <RotateCcw className="w-4 h-4 mr-2" />
+            Reset to defaults
+          </Button>
         </motion.div>
       </div>
     </div>
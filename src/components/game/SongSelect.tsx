@@ -1,137 +1,142 @@
-import { useState, useRef } from 'react';
+import { useState, useRef, useEffect, useCallback, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { ArrowLeft, Upload, Play, Music, User, Clock, Zap, FileText, Package } from 'lucide-react';
+import { ArrowLeft, Upload, Play, Music, User, Zap, FileText, Package, RefreshCw, Trash2, Film, Star } from 'lucide-react';
 import { Button } from '@/components/ui/button';
-import { Beatmap, MODS, Mod } from '@/types/game';
-import { parseOsuFile } from '@/lib/osuParser';
+import { Progress } from '@/components/ui/progress';
+import { Beatmap, MODS, Replay } from '@/types/game';
+import { SavedScore } from '@/types/score';
 import { audioEngine } from '@/lib/audioEngine';
+import {
+  LibraryBeatmap,
+  ImportProgress,
+  getLibrary,
+  getLibraryFile,
+  importBeatmapFiles,
+  setBeatmapAudio,
+  deleteBeatmap,
+  rescanLibrary,
+} from '@/lib/beatmapLibrary';
+import { parseOsrFile } from '@/lib/osrParser';
+import { calculateDifficulty } from '@/lib/difficultyCalculator';
+import { migrateLegacyEntries, getScoresForBeatmap, getReplaysForBeatmap } from '@/lib/scoreStorage';
+import { updateSettings } from '@/lib/settingsStore';
+import { useSettings } from '@/hooks/use-settings';
 import { toast } from 'sonner';
-import JSZip from 'jszip';
+import { BeatmapLeaderboard } from './BeatmapLeaderboard';
 
 interface SongSelectProps {
   onBack: () => void;
   onStartGame: (beatmap: Beatmap, mods: string[]) => void;
+  onWatchReplay: (beatmap: Beatmap, replay: Replay) => void;
 }
 
-interface BeatmapEntry {
-  beatmap: Beatmap;
-  audioFile: File | null;
-  oszName?: string;
-}
-
-export const SongSelect = ({ onBack, onStartGame }: SongSelectProps) => {
-  const [beatmaps, setBeatmaps] = useState<BeatmapEntry[]>([]);
-  const [selectedIndex, setSelectedIndex] = useState<number>(-1);
-  const [activeMods, setActiveMods] = useState<string[]>([]);
-  const [isLoading, setIsLoading] = useState(false);
+export const SongSelect = ({ onBack, onStartGame, onWatchReplay }: SongSelectProps) => {
+  const [beatmaps, setBeatmaps] = useState<LibraryBeatmap[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  // Selected mods are remembered between sessions
+  const { activeMods } = useSettings();
+  const [isLoading, setIsLoading] = useState(true);
+  const [importProgress, setImportProgress] = useState<ImportProgress | null>(null);
+  const [backgroundUrl, setBackgroundUrl] = useState<string | null>(null);
   
   const osuInputRef = useRef<HTMLInputElement>(null);
   const oszInputRef = useRef<HTMLInputElement>(null);
+  const osrInputRef = useRef<HTMLInputElement>(null);
   const audioInputRef = useRef<HTMLInputElement>(null);
 
-  const selectedBeatmap = selectedIndex >= 0 ? beatmaps[selectedIndex] : null;
+  const selectedBeatmap = beatmaps.find(entry => entry.id === selectedId) ?? null;
+  const selectedHash = selectedBeatmap?.beatmap.md5;
 
-  const handleOsuUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const files = e.target.files;
-    if (!files) return;
+  // Nomod ratings for the list; the selected map is rated with the active mods
+  const starRatings = useMemo(
+    () => new Map(beatmaps.map(entry => [entry.id, calculateDifficulty(entry.beatmap).starRating])),
+    [beatmaps]
+  );
+  const difficulty = useMemo(
+    () => selectedBeatmap ? calculateDifficulty(selectedBeatmap.beatmap, activeMods) : null,
+    [selectedBeatmap, activeMods]
+  );
 
-    setIsLoading(true);
-    
-    for (const file of Array.from(files)) {
-      try {
-        const content = await file.text();
-        const beatmap = parseOsuFile(content);
-        setBeatmaps(prev => [...prev, { beatmap, audioFile: null }]);
-        toast.success(`Loaded: ${beatmap.title} [${beatmap.version}]`);
-      } catch (err) {
-        toast.error(`Failed to parse: ${file.name}`);
-      }
+  const leaderboardScores = useMemo(
+    () => selectedHash ? getScoresForBeatmap(selectedHash) : [],
+    [selectedHash]
+  );
+  const replaysByTimestamp = useMemo(
+    () => new Map(selectedHash ? getReplaysForBeatmap(selectedHash).map(r => [r.timestamp, r]) : []),
+    [selectedHash]
+  );
+
+  const loadLibrary = useCallback(async () => {
+    try {
+      const library = await getLibrary();
+      // Older scores and replays are re-keyed once their map is in the library
+      migrateLegacyEntries(library.map(entry => entry.beatmap));
+      setBeatmaps(library);
+    } catch (err) {
+      console.error('Failed to load beatmap library:', err);
+      toast.error('Failed to load beatmap library');
     }
-    
-    setIsLoading(false);
-    if (e.target) e.target.value = '';
-  };
+  }, []);
+
+  // Load the saved library on mount
+  useEffect(() => {
+    loadLibrary().finally(() => setIsLoading(false));
+  }, [loadLibrary]);
+
+  // Show the selected map's background, releasing the previous object URL
+  useEffect(() => {
+    const hash = selectedBeatmap?.backgroundHash;
+    if (!hash) {
+      setBackgroundUrl(null);
+      return;
+    }
+
+    let url: string | null = null;
+    let cancelled = false;
+    getLibraryFile(hash).then(file => {
+      if (cancelled || !file) return;
+      url = URL.createObjectURL(file);
+      setBackgroundUrl(url);
+    });
+
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [selectedBeatmap?.backgroundHash]);
 
-  const handleOszUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = e.target.files;
-    if (!files) return;
+    if (!files || files.length === 0) return;
 
     setIsLoading(true);
-    
-    for (const file of Array.from(files)) {
-      try {
-        const zip = await JSZip.loadAsync(file);
-        const oszName = file.name.replace('.osz', '');
-        
-        // Find audio file (usually audio.mp3 or similar)
-        let audioBlob: Blob | null = null;
-        let audioFileName = '';
-        
-        // Parse all .osu files and find audio
-        const osuFiles: { name: string; content: string }[] = [];
-        
-        for (const [fileName, zipEntry] of Object.entries(zip.files)) {
-          if (fileName.endsWith('.osu')) {
-            const content = await zipEntry.async('string');
-            osuFiles.push({ name: fileName, content });
-          } else if (fileName.match(/\.(mp3|ogg|wav)$/i) && !audioBlob) {
-            audioBlob = await zipEntry.async('blob');
-            audioFileName = fileName;
-          }
-        }
-
-        if (osuFiles.length === 0) {
-          toast.error(`No .osu files found in ${file.name}`);
-          continue;
-        }
-
-        // Create audio file if found
-        let audioFile: File | null = null;
-        if (audioBlob) {
-          audioFile = new File([audioBlob], audioFileName, { type: 'audio/mpeg' });
-        }
-
-        // Parse each .osu file and add to beatmaps
-        for (const osuFile of osuFiles) {
-          try {
-            const beatmap = parseOsuFile(osuFile.content);
-            setBeatmaps(prev => [...prev, { 
-              beatmap, 
-              audioFile,
-              oszName 
-            }]);
-          } catch (err) {
-            console.error(`Failed to parse ${osuFile.name}:`, err);
-          }
-        }
-
-        toast.success(`Loaded ${osuFiles.length} beatmaps from ${file.name}`);
-        
-        // If audio was found, preload it for the first beatmap
-        if (audioFile) {
-          await audioEngine.loadAudioFromFile(audioFile);
-        }
-      } catch (err) {
-        console.error('OSZ parsing error:', err);
-        toast.error(`Failed to load: ${file.name}`);
+    try {
+      const result = await importBeatmapFiles(Array.from(files), setImportProgress);
+      result.failed.forEach(name => toast.error(`Failed to load: ${name}`));
+      if (result.added > 0) {
+        toast.success(`Added ${result.added} beatmap${result.added === 1 ? '' : 's'} to the library`);
+      }
+      if (result.duplicates > 0) {
+        toast.info(`${result.duplicates} beatmap${result.duplicates === 1 ? ' was' : 's were'} already in the library`);
       }
+      await loadLibrary();
+    } catch (err) {
+      console.error('Import error:', err);
+      toast.error('Failed to save beatmaps to the library');
     }
     
+    setImportProgress(null);
     setIsLoading(false);
     if (e.target) e.target.value = '';
   };
 
   const handleAudioUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
-    if (!file || selectedIndex < 0) return;
+    if (!file || !selectedBeatmap) return;
 
     try {
-      await audioEngine.loadAudioFromFile(file);
-      setBeatmaps(prev => {
-        const updated = [...prev];
-        updated[selectedIndex] = { ...updated[selectedIndex], audioFile: file };
-        return updated;
-      });
+      const updated = await setBeatmapAudio(selectedBeatmap.id, file);
+      setBeatmaps(prev => prev.map(entry => entry.id === updated.id ? updated : entry));
       toast.success('Audio loaded successfully!');
     } catch (err) {
       toast.error('Failed to load audio file');
@@ -140,8 +145,37 @@ export const SongSelect = ({ onBack, onStartGame }: SongSelectProps) => {
     e.target.value = '';
   };
 
+  const handleDelete = async () => {
+    if (!selectedBeatmap) return;
+
+    try {
+      await deleteBeatmap(selectedBeatmap.id);
+      setSelectedId(null);
+      await loadLibrary();
+      toast.success(`Deleted: ${selectedBeatmap.beatmap.title} [${selectedBeatmap.beatmap.version}]`);
+    } catch (err) {
+      toast.error('Failed to delete beatmap');
+    }
+  };
+
+  const handleRescan = async () => {
+    setIsLoading(true);
+    try {
+      const result = await rescanLibrary();
+      await loadLibrary();
+      toast.success(`Re-scanned ${result.updated} beatmap${result.updated === 1 ? '' : 's'}`);
+      if (result.failed > 0) {
+        toast.error(`${result.failed} beatmap${result.failed === 1 ? '' : 's'} could not be parsed`);
+      }
+    } catch (err) {
+      console.error('Re-scan error:', err);
+      toast.error('Failed to re-scan the library');
+    }
+    setIsLoading(false);
+  };
+
   const toggleMod = (modId: string) => {
-    setActiveMods(prev => {
+    const getNextMods = (prev: string[]) => {
       // Handle conflicting mods
       if (modId === 'dt' && prev.includes('ht')) {
         return [...prev.filter(m => m !== 'ht'), modId];
@@ -154,7 +188,8 @@ export const SongSelect = ({ onBack, onStartGame }: SongSelectProps) => {
         return prev.filter(m => m !== modId);
       }
       return [...prev, modId];
-    });
+    };
+    updateSettings({ activeMods: getNextMods(activeMods) });
   };
 
   const calculateModMultiplier = () => {
@@ -164,15 +199,70 @@ export const SongSelect = ({ onBack, onStartGame }: SongSelectProps) => {
     }, 1);
   };
 
-  const handleStartGame = () => {
-    if (!selectedBeatmap) return;
-    
-    if (!selectedBeatmap.audioFile) {
+  // Load a map's audio into the engine; false if it could not be loaded
+  const loadAudio = async (entry: LibraryBeatmap): Promise<boolean> => {
+    if (!entry.audioHash) {
       toast.error('Please load an audio file first');
+      return false;
+    }
+
+    setIsLoading(true);
+    try {
+      const audioFile = await getLibraryFile(entry.audioHash);
+      if (!audioFile) throw new Error('Audio file missing from library');
+      await audioEngine.loadAudioFromFile(audioFile);
+      return true;
+    } catch (err) {
+      console.error('Audio load error:', err);
+      toast.error('Failed to load audio file');
+      setIsLoading(false);
+      return false;
+    }
+  };
+
+  const handleStartGame = async () => {
+    if (!selectedBeatmap) return;
+    if (await loadAudio(selectedBeatmap)) {
+      onStartGame(selectedBeatmap.beatmap, activeMods);
+    }
+  };
+
+  const handleWatchReplay = async (score: SavedScore) => {
+    const replay = score.replayTimestamp !== undefined ? replaysByTimestamp.get(score.replayTimestamp) : undefined;
+    if (!selectedBeatmap || !replay) {
+      toast.error('This replay is no longer saved');
       return;
     }
-    
-    onStartGame(selectedBeatmap.beatmap, activeMods);
+    if (await loadAudio(selectedBeatmap)) {
+      onWatchReplay(selectedBeatmap.beatmap, replay);
+    }
+  };
+
+  // Watch an osu! .osr replay of a map that is in the library
+  const handleOsrImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (e.target) e.target.value = '';
+    if (!file) return;
+
+    let replay: Replay;
+    try {
+      replay = parseOsrFile(await file.arrayBuffer());
+    } catch (err) {
+      console.error('Replay parsing error:', err);
+      toast.error(`Failed to load: ${file.name}`);
+      return;
+    }
+
+    const entry = beatmaps.find(b => b.beatmap.md5 && b.beatmap.md5 === replay.beatmapHash);
+    if (!entry) {
+      toast.error('The beatmap for this replay is not in your library');
+      return;
+    }
+
+    setSelectedId(entry.id);
+    if (await loadAudio(entry)) {
+      onWatchReplay(entry.beatmap, replay);
+    }
   };
 
   return (
@@ -196,7 +286,7 @@ export const SongSelect = ({ onBack, onStartGame }: SongSelectProps) => {
           accept=".osu"
           multiple
           className="hidden"
-          onChange={handleOsuUpload}
+          onChange={handleImport}
         />
         <input
           ref={oszInputRef}
@@ -204,8 +294,34 @@ export const SongSelect = ({ onBack, onStartGame }: SongSelectProps) => {
           accept=".osz"
           multiple
           className="hidden"
-          onChange={handleOszUpload}
+          onChange={handleImport}
+        />
+        <input
+          ref={osrInputRef}
+          type="file"
+          accept=".osr"
+          className="hidden"
+          onChange={handleOsrImport}
         />
+        <Button
+          variant="ghost"
+          onClick={() => osrInputRef.current?.click()}
+          disabled={isLoading || beatmaps.length === 0}
+          className="mr-2"
+        >
+          <Film className="w-4 h-4 mr-2" />
+          Import .osr
+        </Button>
+        <Button
+          variant="ghost"
+          onClick={handleRescan}
+          disabled={isLoading || beatmaps.length === 0}
+          className="mr-2"
+          title="Re-parse stored beatmaps and clean up unused files"
+        >
+          <RefreshCw className="w-4 h-4 mr-2" />
+          Re-scan
+        </Button>
         <Button 
           variant="neonCyan" 
           onClick={() => oszInputRef.current?.click()}
@@ -225,6 +341,17 @@ export const SongSelect = ({ onBack, onStartGame }: SongSelectProps) => {
         </Button>
       </motion.header>
 
+      {/* Import progress */}
+      {importProgress && (
+        <div className="px-4 py-2 border-b border-border/30">
+          <div className="flex justify-between text-xs text-muted-foreground mb-1">
+            <span className="truncate">{importProgress.fileName ? `Importing ${importProgress.fileName}` : 'Saving to library...'}</span>
+            <span>{importProgress.current}/{importProgress.total}</span>
+          </div>
+          <Progress value={(importProgress.current / importProgress.total) * 100} className="h-2" />
+        </div>
+      )}
+
       <div className="flex-1 flex overflow-hidden">
         {/* Beatmap list */}
         <motion.div 
@@ -236,28 +363,28 @@ export const SongSelect = ({ onBack, onStartGame }: SongSelectProps) => {
           {beatmaps.length === 0 ? (
             <div className="flex flex-col items-center justify-center h-full text-muted-foreground">
               <Music className="w-16 h-16 mb-4 opacity-30" />
-              <p className="text-lg mb-2">No beatmaps loaded</p>
-              <p className="text-sm">Import .osu files to get started</p>
+              <p className="text-lg mb-2">{isLoading ? 'Loading library...' : 'No beatmaps loaded'}</p>
+              {!isLoading && <p className="text-sm">Import .osz or .osu files to get started</p>}
             </div>
           ) : (
             <div className="space-y-2">
-              {beatmaps.map((entry, index) => (
+              {beatmaps.map(entry => (
                 <motion.button
-                  key={index}
+                  key={entry.id}
                   className={`w-full text-left p-4 rounded-lg border transition-all ${
-                    selectedIndex === index 
+                    selectedId === entry.id 
                       ? 'border-primary bg-primary/10 shadow-lg shadow-primary/20' 
                       : 'border-border/30 bg-card/50 hover:border-primary/50'
                   }`}
-                  onClick={() => setSelectedIndex(index)}
+                  onClick={() => setSelectedId(entry.id)}
                   whileHover={{ scale: 1.01 }}
                   whileTap={{ scale: 0.99 }}
                 >
                   <div className="flex items-center gap-3">
                     <div className={`w-12 h-12 rounded-lg flex items-center justify-center ${
-                      entry.audioFile ? 'bg-primary/20' : 'bg-muted'
+                      entry.audioHash ? 'bg-primary/20' : 'bg-muted'
                     }`}>
-                      <Music className={`w-6 h-6 ${entry.audioFile ? 'text-primary' : 'text-muted-foreground'}`} />
+                      <Music className={`w-6 h-6 ${entry.audioHash ? 'text-primary' : 'text-muted-foreground'}`} />
                     </div>
                     <div className="flex-1 min-w-0">
                       <h3 className="font-semibold truncate">{entry.beatmap.title}</h3>
@@ -265,6 +392,7 @@ export const SongSelect = ({ onBack, onStartGame }: SongSelectProps) => {
                     </div>
                     <div className="text-right">
                       <div className="text-xs text-primary font-medium">{entry.beatmap.version}</div>
+                      <div className="text-xs text-gold">{starRatings.get(entry.id)?.toFixed(2)}★</div>
                       <div className="text-xs text-muted-foreground">{entry.beatmap.hitObjects.length} objects</div>
                     </div>
                   </div>
@@ -276,7 +404,7 @@ export const SongSelect = ({ onBack, onStartGame }: SongSelectProps) => {
 
         {/* Details panel */}
         <motion.div 
-          className="w-1/2 p-6 flex flex-col"
+          className="w-1/2 p-6 flex flex-col min-h-0"
           initial={{ opacity: 0, x: 30 }}
           animate={{ opacity: 1, x: 0 }}
           transition={{ delay: 0.2 }}
@@ -284,14 +412,19 @@ export const SongSelect = ({ onBack, onStartGame }: SongSelectProps) => {
           <AnimatePresence mode="wait">
             {selectedBeatmap ? (
               <motion.div
-                key={selectedIndex}
-                className="flex-1 flex flex-col"
+                key={selectedBeatmap.id}
+                className="flex-1 flex flex-col min-h-0"
                 initial={{ opacity: 0, y: 20 }}
                 animate={{ opacity: 1, y: 0 }}
                 exit={{ opacity: 0, y: -20 }}
               >
                 {/* Beatmap info */}
-                <div className="neon-box rounded-xl p-6 mb-6">
+                <div
+                  className="neon-box rounded-xl p-6 mb-6 bg-cover bg-center"
+                  style={backgroundUrl ? {
+                    backgroundImage: `linear-gradient(hsl(var(--background) / 0.85), hsl(var(--background) / 0.85)), url(${backgroundUrl})`,
+                  } : undefined}
+                >
                   <h2 className="font-display text-2xl font-bold mb-1 neon-text">
                     {selectedBeatmap.beatmap.title}
                   </h2>
@@ -310,6 +443,17 @@ export const SongSelect = ({ onBack, onStartGame }: SongSelectProps) => {
                     </div>
                   </div>
                   
+                  {/* Star rating */}
+                  {difficulty && (
+                    <div className="mt-4 flex items-center gap-3 text-sm">
+                      <Star className="w-4 h-4 text-gold" />
+                      <span className="font-bold text-gold">{difficulty.starRating.toFixed(2)}★</span>
+                      <span className="text-muted-foreground">
+                        Aim {difficulty.aimRating.toFixed(2)} • Speed {difficulty.speedRating.toFixed(2)}
+                      </span>
+                    </div>
+                  )}
+
                   {/* Difficulty stats */}
                   <div className="mt-4 grid grid-cols-4 gap-2">
                     {[
@@ -327,7 +471,7 @@ export const SongSelect = ({ onBack, onStartGame }: SongSelectProps) => {
                 </div>
 
                 {/* Audio upload */}
-                {!selectedBeatmap.audioFile && (
+                {!selectedBeatmap.audioHash && (
                   <div className="mb-6">
                     <input
                       ref={audioInputRef}
@@ -374,18 +518,37 @@ export const SongSelect = ({ onBack, onStartGame }: SongSelectProps) => {
                   )}
                 </div>
 
+                {/* Leaderboard */}
+                <div className="flex-1 min-h-0 mb-6 flex flex-col overflow-hidden">
+                  <BeatmapLeaderboard
+                    scores={leaderboardScores}
+                    onWatchReplay={selectedBeatmap.audioHash ? handleWatchReplay : undefined}
+                    canWatchReplay={score => score.replayTimestamp !== undefined && replaysByTimestamp.has(score.replayTimestamp)}
+                  />
+                </div>
+
                 {/* Play button */}
-                <div className="mt-auto">
+                <div className="mt-auto flex gap-2">
                   <Button 
                     variant="hero" 
                     size="xl" 
-                    className="w-full"
+                    className="flex-1"
                     onClick={handleStartGame}
-                    disabled={!selectedBeatmap.audioFile}
+                    disabled={!selectedBeatmap.audioHash || isLoading}
                   >
                     <Play className="w-6 h-6 mr-2" />
                     Start Game
                   </Button>
+                  <Button
+                    variant="outline"
+                    size="xl"
+                    className="px-6"
+                    onClick={handleDelete}
+                    disabled={isLoading}
+                    title="Delete from library"
+                  >
+                    <Trash2 className="w-5 h-5" />
+                  </Button>
                 </div>
               </motion.div>
             ) : (
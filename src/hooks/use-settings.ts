@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from "react";
+import { GameSettings } from "@/types/game";
+import { getSettings, subscribeSettings } from "@/lib/settingsStore";
+
+export function useSettings(): GameSettings {
+  return useSyncExternalStore(subscribeSettings, getSettings);
+}
@@ -1,21 +1,34 @@
 // Audio Engine for precise music synchronization
 
+import { SampleSetName } from '@/types/game';
+import { SampleName, ResolvedSample, synthesizeSample } from './hitsounds';
+
 class AudioEngine {
   private audioContext: AudioContext | null = null;
   private sourceNode: AudioBufferSourceNode | null = null;
   private gainNode: GainNode | null = null;
+  private effectGainNode: GainNode | null = null;
+  private musicVolume: number = 1;
+  private effectVolume: number = 1;
+  private samples: Map<string, AudioBuffer> = new Map();
   private audioBuffer: AudioBuffer | null = null;
   private startTime: number = 0;
   private pauseTime: number = 0;
   private isPlaying: boolean = false;
   private playbackRate: number = 1;
   private audioFile: File | null = null;
+  private metronomeSources: AudioBufferSourceNode[] = [];
+  private metronomeStart: number = 0;
 
   async init(): Promise<void> {
     if (!this.audioContext) {
       this.audioContext = new AudioContext();
       this.gainNode = this.audioContext.createGain();
+      this.gainNode.gain.value = this.musicVolume;
       this.gainNode.connect(this.audioContext.destination);
+      this.effectGainNode = this.audioContext.createGain();
+      this.effectGainNode.gain.value = this.effectVolume;
+      this.effectGainNode.connect(this.audioContext.destination);
     }
     if (this.audioContext.state === 'suspended') {
       await this.audioContext.resume();
@@ -42,6 +55,8 @@ class AudioEngine {
     return this.audioFile;
   }
 
+  // A negative offset starts the song that long from now, with time counting
+  // up from the offset meanwhile, for lead-in before the first note
   play(startOffset: number = 0): void {
     if (!this.audioContext || !this.audioBuffer || !this.gainNode) return;
     
@@ -52,22 +67,27 @@ class AudioEngine {
     this.sourceNode.playbackRate.value = this.playbackRate;
     this.sourceNode.connect(this.gainNode);
     
-    const offset = Math.max(0, startOffset / 1000);
-    this.startTime = this.audioContext.currentTime - offset;
-    this.sourceNode.start(0, offset);
+    // Song time advances playbackRate times faster than the context clock
+    this.startTime = this.audioContext.currentTime - startOffset / 1000 / this.playbackRate;
+    this.sourceNode.start(Math.max(this.audioContext.currentTime, this.startTime), Math.max(0, startOffset / 1000));
     this.isPlaying = true;
     
-    this.sourceNode.onended = () => {
-      if (this.isPlaying) {
+    // A source replaced by seeking also ends; only the current one finishing
+    // means the song is over, and time then stays at its end
+    const source = this.sourceNode;
+    source.onended = () => {
+      if (this.sourceNode === source && this.isPlaying) {
         this.isPlaying = false;
+        this.pauseTime = this.getDuration();
       }
     };
   }
 
   pause(): void {
     if (!this.isPlaying) return;
-    this.pauseTime = this.getCurrentTime();
+    const time = this.getCurrentTime();
     this.stop();
+    this.pauseTime = time;
   }
 
   resume(): void {
@@ -95,22 +115,105 @@ class AudioEngine {
   }
 
   setVolume(volume: number): void {
+    this.musicVolume = Math.max(0, Math.min(1, volume));
     if (this.gainNode) {
-      this.gainNode.gain.value = Math.max(0, Math.min(1, volume));
+      this.gainNode.gain.value = this.musicVolume;
+    }
+  }
+
+  setEffectVolume(volume: number): void {
+    this.effectVolume = Math.max(0, Math.min(1, volume));
+    if (this.effectGainNode) {
+      this.effectGainNode.gain.value = this.effectVolume;
+    }
+  }
+
+  // Play a hitsound sample; synthesized on first use and cached per bank
+  playSample(set: SampleSetName, name: SampleName, volume: number = 1): void {
+    if (!this.audioContext || !this.effectGainNode || volume <= 0) return;
+
+    const source = this.audioContext.createBufferSource();
+    source.buffer = this.getSampleBuffer(set, name);
+    const gain = this.audioContext.createGain();
+    gain.gain.value = Math.min(1, volume);
+    source.connect(gain);
+    gain.connect(this.effectGainNode);
+    source.start();
+  }
+
+  private getSampleBuffer(set: SampleSetName, name: SampleName): AudioBuffer {
+    const key = `${set}-${name}`;
+    let buffer = this.samples.get(key);
+    if (!buffer) {
+      buffer = synthesizeSample(this.audioContext!, set, name);
+      this.samples.set(key, buffer);
+    }
+    return buffer;
+  }
+
+  playSamples(samples: ResolvedSample[]): void {
+    for (const sample of samples) {
+      this.playSample(sample.set, sample.name, sample.volume);
     }
   }
 
   setPlaybackRate(rate: number): void {
+    // Keep the song position when the rate changes mid-playback
+    const time = this.getCurrentTime();
     this.playbackRate = rate;
     if (this.sourceNode) {
       this.sourceNode.playbackRate.value = rate;
     }
+    if (this.audioContext && this.isPlaying) {
+      this.startTime = this.audioContext.currentTime - time / 1000 / rate;
+    }
   }
 
   getDuration(): number {
     return this.audioBuffer ? this.audioBuffer.duration * 1000 : 0;
   }
 
+  /** Time from scheduling a sound to it leaving the speakers (ms), where the browser reports it */
+  getOutputLatency(): number {
+    if (!this.audioContext) return 0;
+    return ((this.audioContext.outputLatency || 0) + (this.audioContext.baseLatency || 0)) * 1000;
+  }
+
+  // Metronome for offset calibration. Clicks are scheduled on the audio
+  // clock up front, so they land on the beat whatever the page is doing.
+  async startMetronome(beatLength: number, beats: number): Promise<void> {
+    await this.init();
+    this.stopMetronome();
+    const context = this.audioContext!;
+    // A short lead so the first click is not scheduled in the past
+    this.metronomeStart = context.currentTime + 0.5;
+    for (let i = 0; i < beats; i++) {
+      const source = context.createBufferSource();
+      source.buffer = this.getSampleBuffer('normal', i % 4 === 0 ? 'hitfinish' : 'hitnormal');
+      source.connect(this.effectGainNode!);
+      source.start(this.metronomeStart + i * beatLength / 1000);
+      this.metronomeSources.push(source);
+    }
+  }
+
+  stopMetronome(): void {
+    for (const source of this.metronomeSources) {
+      try {
+        source.stop();
+        source.disconnect();
+      } catch (e) {
+        // Already stopped
+      }
+    }
+    this.metronomeSources = [];
+  }
+
+  /** Ms since the metronome's first click was scheduled to play */
+  getMetronomeTime(): number {
+    if (!this.audioContext) return 0;
+    return (this.audioContext.currentTime - this.metronomeStart) * 1000;
+  }
+
   getIsPlaying(): boolean {
     return this.isPlaying;
   }
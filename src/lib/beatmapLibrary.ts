@@ -0,0 +1,343 @@
+import JSZip from 'jszip';
+import { Beatmap } from '@/types/game';
+import { parseOsuFile } from './osuParser';
+import { sha1, md5 } from './contentHash';
+
+// Imported beatmaps live in IndexedDB so they survive reloads. Maps are keyed
+// by the hash of their .osu text; audio and background files by the hash of
+// their content, so a song shared by several difficulties is stored once.
+
+const DB_NAME = 'beats66_library';
+const DB_VERSION = 1;
+const BEATMAPS_STORE = 'beatmaps';
+const FILES_STORE = 'files';
+
+export interface LibraryBeatmap {
+  id: string; // SHA-1 of the raw .osu text
+  beatmap: Beatmap;
+  osuText: string;
+  audioHash: string | null;
+  backgroundHash: string | null;
+  setName?: string; // .osz the map was imported from
+  addedAt: number;
+}
+
+interface LibraryFile {
+  hash: string;
+  name: string;
+  type: string;
+  blob: Blob;
+}
+
+export interface ImportProgress {
+  current: number;
+  total: number;
+  fileName: string;
+}
+
+export interface ImportResult {
+  added: number;
+  duplicates: number;
+  failed: string[];
+}
+
+const AUDIO_TYPES: Record<string, string> = {
+  mp3: 'audio/mpeg',
+  ogg: 'audio/ogg',
+  wav: 'audio/wav',
+};
+
+const IMAGE_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+};
+
+const getExtension = (name: string): string => name.split('.').pop()?.toLowerCase() || '';
+
+// --- IndexedDB helpers ---
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openLibrary = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(BEATMAPS_STORE)) {
+          db.createObjectStore(BEATMAPS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(FILES_STORE)) {
+          db.createObjectStore(FILES_STORE, { keyPath: 'hash' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+// --- Reading ---
+
+export const getLibrary = async (): Promise<LibraryBeatmap[]> => {
+  const db = await openLibrary();
+  const store = db.transaction(BEATMAPS_STORE).objectStore(BEATMAPS_STORE);
+  const entries = await requestResult(store.getAll() as IDBRequest<LibraryBeatmap[]>);
+  return entries.sort((a, b) => a.addedAt - b.addedAt);
+};
+
+export const getLibraryFile = async (hash: string): Promise<File | null> => {
+  const db = await openLibrary();
+  const store = db.transaction(FILES_STORE).objectStore(FILES_STORE);
+  const file = await requestResult(store.get(hash) as IDBRequest<LibraryFile | undefined>);
+  return file ? new File([file.blob], file.name, { type: file.type }) : null;
+};
+
+// --- Importing ---
+
+interface PendingImport {
+  entries: LibraryBeatmap[];
+  files: Map<string, LibraryFile>;
+}
+
+const addFile = async (pending: PendingImport, name: string, blob: Blob, type: string): Promise<string> => {
+  const hash = await sha1(blob);
+  if (!pending.files.has(hash)) {
+    pending.files.set(hash, { hash, name, type, blob });
+  }
+  return hash;
+};
+
+// osu! hashes .osu files as stored, so the MD5 is taken before decoding
+const readOsuBytes = (bytes: Uint8Array) => ({
+  osuText: new TextDecoder().decode(bytes),
+  osuHash: md5(bytes),
+});
+
+const createEntry = async (
+  osuText: string,
+  osuHash: string,
+  audioHash: string | null,
+  backgroundHash: string | null,
+  setName?: string
+): Promise<LibraryBeatmap> => ({
+  id: await sha1(osuText),
+  beatmap: parseOsuFile(osuText, osuHash),
+  osuText,
+  audioHash,
+  backgroundHash,
+  setName,
+  addedAt: Date.now(),
+});
+
+const readOsz = async (file: File, pending: PendingImport): Promise<void> => {
+  const zip = await JSZip.loadAsync(file);
+  const setName = file.name.replace(/\.osz$/i, '');
+  const zipFiles = Object.values(zip.files).filter(entry => !entry.dir);
+  // Archive paths are matched case-insensitively, as osu! does
+  const findFile = (name?: string) =>
+    name ? zipFiles.find(entry => entry.name.toLowerCase() === name.toLowerCase()) : undefined;
+
+  const osuFiles = zipFiles.filter(entry => getExtension(entry.name) === 'osu');
+  if (osuFiles.length === 0) {
+    throw new Error(`No .osu files found in ${file.name}`);
+  }
+  const fallbackAudio = zipFiles.find(entry => getExtension(entry.name) in AUDIO_TYPES);
+
+  for (const osuFile of osuFiles) {
+    const { osuText, osuHash } = readOsuBytes(await osuFile.async('uint8array'));
+    const { audioFilename, backgroundFilename } = parseOsuFile(osuText, osuHash);
+
+    let audioHash: string | null = null;
+    const audio = findFile(audioFilename) ?? fallbackAudio;
+    if (audio) {
+      const type = AUDIO_TYPES[getExtension(audio.name)] || 'audio/mpeg';
+      audioHash = await addFile(pending, audio.name, await audio.async('blob'), type);
+    }
+
+    let backgroundHash: string | null = null;
+    const background = findFile(backgroundFilename);
+    if (background && getExtension(background.name) in IMAGE_TYPES) {
+      const type = IMAGE_TYPES[getExtension(background.name)];
+      backgroundHash = await addFile(pending, background.name, await background.async('blob'), type);
+    }
+
+    pending.entries.push(await createEntry(osuText, osuHash, audioHash, backgroundHash, setName));
+  }
+};
+
+/**
+ * Import .osz archives and .osu files into the library. Maps already in the
+ * library are skipped, but gain any audio or background they were missing.
+ */
+export const importBeatmapFiles = async (
+  files: File[],
+  onProgress?: (progress: ImportProgress) => void
+): Promise<ImportResult> => {
+  const pending: PendingImport = { entries: [], files: new Map() };
+  const failed: string[] = [];
+
+  for (let i = 0; i < files.length; i++) {
+    const file = files[i];
+    onProgress?.({ current: i, total: files.length, fileName: file.name });
+    try {
+      if (getExtension(file.name) === 'osz') {
+        await readOsz(file, pending);
+      } else {
+        const { osuText, osuHash } = readOsuBytes(new Uint8Array(await file.arrayBuffer()));
+        pending.entries.push(await createEntry(osuText, osuHash, null, null));
+      }
+    } catch (err) {
+      console.error(`Failed to import ${file.name}:`, err);
+      failed.push(file.name);
+    }
+  }
+  onProgress?.({ current: files.length, total: files.length, fileName: '' });
+
+  const db = await openLibrary();
+  const tx = db.transaction([BEATMAPS_STORE, FILES_STORE], 'readwrite');
+  const beatmapStore = tx.objectStore(BEATMAPS_STORE);
+  const fileStore = tx.objectStore(FILES_STORE);
+
+  let added = 0;
+  let duplicates = 0;
+  const seen = new Set<string>();
+  for (const entry of pending.entries) {
+    if (seen.has(entry.id)) {
+      duplicates++;
+      continue;
+    }
+    seen.add(entry.id);
+
+    const existing = await requestResult(beatmapStore.get(entry.id) as IDBRequest<LibraryBeatmap | undefined>);
+    if (!existing) {
+      beatmapStore.put(entry);
+      added++;
+      continue;
+    }
+
+    duplicates++;
+    // Maps imported before they were hashed only get an MD5 from their file
+    const missingHash = !existing.beatmap.md5;
+    if (missingHash || (!existing.audioHash && entry.audioHash) || (!existing.backgroundHash && entry.backgroundHash)) {
+      beatmapStore.put({
+        ...existing,
+        beatmap: missingHash ? { ...existing.beatmap, md5: entry.beatmap.md5 } : existing.beatmap,
+        audioHash: existing.audioHash ?? entry.audioHash,
+        backgroundHash: existing.backgroundHash ?? entry.backgroundHash,
+      });
+    }
+  }
+  pending.files.forEach(file => fileStore.put(file));
+
+  await transactionDone(tx);
+  return { added, duplicates, failed };
+};
+
+/** Attach an audio file to a map imported without one */
+export const setBeatmapAudio = async (id: string, file: File): Promise<LibraryBeatmap> => {
+  const hash = await sha1(file);
+  const db = await openLibrary();
+  const tx = db.transaction([BEATMAPS_STORE, FILES_STORE], 'readwrite');
+  const beatmapStore = tx.objectStore(BEATMAPS_STORE);
+
+  const entry = await requestResult(beatmapStore.get(id) as IDBRequest<LibraryBeatmap | undefined>);
+  if (!entry) {
+    tx.abort();
+    throw new Error('Beatmap is no longer in the library');
+  }
+
+  const updated: LibraryBeatmap = { ...entry, audioHash: hash };
+  tx.objectStore(FILES_STORE).put({ hash, name: file.name, type: file.type || 'audio/mpeg', blob: file });
+  beatmapStore.put(updated);
+  await transactionDone(tx);
+  return updated;
+};
+
+// --- Maintenance ---
+
+// Remove files no remaining map refers to; runs inside the caller's transaction
+const removeOrphanedFiles = async (tx: IDBTransaction, entries: LibraryBeatmap[]): Promise<number> => {
+  const referenced = new Set<string>();
+  for (const entry of entries) {
+    if (entry.audioHash) referenced.add(entry.audioHash);
+    if (entry.backgroundHash) referenced.add(entry.backgroundHash);
+  }
+
+  const fileStore = tx.objectStore(FILES_STORE);
+  const hashes = await requestResult(fileStore.getAllKeys()) as string[];
+  const orphaned = hashes.filter(hash => !referenced.has(hash));
+  orphaned.forEach(hash => fileStore.delete(hash));
+  return orphaned.length;
+};
+
+export const deleteBeatmap = async (id: string): Promise<void> => {
+  const db = await openLibrary();
+  const tx = db.transaction([BEATMAPS_STORE, FILES_STORE], 'readwrite');
+  const beatmapStore = tx.objectStore(BEATMAPS_STORE);
+
+  beatmapStore.delete(id);
+  const remaining = await requestResult(beatmapStore.getAll() as IDBRequest<LibraryBeatmap[]>);
+  await removeOrphanedFiles(tx, remaining);
+  await transactionDone(tx);
+};
+
+/**
+ * Re-parse every stored .osu with the current parser, re-link maps missing
+ * audio or a background to stored files with the expected name, and drop
+ * files nothing refers to any more.
+ */
+export const rescanLibrary = async (): Promise<{ updated: number; failed: number; removedFiles: number }> => {
+  const db = await openLibrary();
+  const tx = db.transaction([BEATMAPS_STORE, FILES_STORE], 'readwrite');
+  const beatmapStore = tx.objectStore(BEATMAPS_STORE);
+
+  const entries = await requestResult(beatmapStore.getAll() as IDBRequest<LibraryBeatmap[]>);
+  const files = await requestResult(tx.objectStore(FILES_STORE).getAll() as IDBRequest<LibraryFile[]>);
+  const findFile = (name?: string) =>
+    name ? files.find(file => file.name.toLowerCase() === name.toLowerCase()) : undefined;
+
+  let updated = 0;
+  let failed = 0;
+  const rescanned: LibraryBeatmap[] = [];
+  for (const entry of entries) {
+    try {
+      const beatmap = parseOsuFile(entry.osuText, entry.beatmap.md5);
+      const next: LibraryBeatmap = {
+        ...entry,
+        beatmap,
+        audioHash: entry.audioHash ?? findFile(beatmap.audioFilename)?.hash ?? null,
+        backgroundHash: entry.backgroundHash ?? findFile(beatmap.backgroundFilename)?.hash ?? null,
+      };
+      beatmapStore.put(next);
+      rescanned.push(next);
+      updated++;
+    } catch (err) {
+      console.error(`Failed to re-parse ${entry.beatmap.title} [${entry.beatmap.version}]:`, err);
+      rescanned.push(entry);
+      failed++;
+    }
+  }
+
+  const removedFiles = await removeOrphanedFiles(tx, rescanned);
+  await transactionDone(tx);
+  return { updated, failed, removedFiles };
+};
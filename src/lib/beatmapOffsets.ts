@@ -0,0 +1,33 @@
+// Per-map audio offsets, keyed by beatmap MD5. They are nudged in-game and
+// added to the global offset from settings; 0 is not stored. Maps with no
+// MD5 (made in the editor, or imported before hashing) have none.
+const OFFSETS_KEY = 'beats66_offsets';
+
+const getOffsets = (): Record<string, number> => {
+  try {
+    const data = localStorage.getItem(OFFSETS_KEY);
+    return data ? JSON.parse(data) : {};
+  } catch {
+    return {};
+  }
+};
+
+export const getBeatmapOffset = (beatmapHash: string): number => {
+  if (!beatmapHash) return 0;
+  return getOffsets()[beatmapHash] ?? 0;
+};
+
+export const setBeatmapOffset = (beatmapHash: string, offset: number): void => {
+  if (!beatmapHash) return;
+  const offsets = getOffsets();
+  if (offset === 0) {
+    delete offsets[beatmapHash];
+  } else {
+    offsets[beatmapHash] = offset;
+  }
+  try {
+    localStorage.setItem(OFFSETS_KEY, JSON.stringify(offsets));
+  } catch {
+    // Storage may be full or unavailable; the offset still applies this session
+  }
+};
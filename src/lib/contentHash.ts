@@ -0,0 +1,87 @@
+const toHex = (buffer: ArrayBuffer): string =>
+  Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('');
+
+/** SHA-1 of a string (UTF-8) or binary content, as lowercase hex */
+export const sha1 = async (data: string | Blob | ArrayBuffer): Promise<string> => {
+  let bytes: ArrayBuffer;
+  if (typeof data === 'string') {
+    bytes = new TextEncoder().encode(data).buffer as ArrayBuffer;
+  } else if (data instanceof Blob) {
+    bytes = await data.arrayBuffer();
+  } else {
+    bytes = data;
+  }
+  return toHex(await crypto.subtle.digest('SHA-1', bytes));
+};
+
+// MD5 per-round shift amounts and sine-derived constants (RFC 1321)
+const MD5_SHIFTS = [
+  7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22,
+  5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20,
+  4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23,
+  6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21,
+];
+const MD5_CONSTANTS = Array.from({ length: 64 }, (_, i) => Math.floor(Math.abs(Math.sin(i + 1)) * 2 ** 32) >>> 0);
+
+/**
+ * MD5 of a string (UTF-8) or bytes, as lowercase hex. Synchronous so it can
+ * run while parsing; osu! identifies beatmaps and replays by this hash.
+ */
+export const md5 = (data: string | Uint8Array): string => {
+  const input = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+
+  // Pad to a multiple of 64 bytes: 0x80, zeros, then the bit length (little-endian)
+  const paddedLength = ((input.length + 8) >> 6) * 64 + 64;
+  const bytes = new Uint8Array(paddedLength);
+  bytes.set(input);
+  bytes[input.length] = 0x80;
+  const view = new DataView(bytes.buffer);
+  view.setUint32(paddedLength - 8, (input.length * 8) >>> 0, true);
+  view.setUint32(paddedLength - 4, Math.floor(input.length / 0x20000000), true);
+
+  let a0 = 0x67452301;
+  let b0 = 0xefcdab89;
+  let c0 = 0x98badcfe;
+  let d0 = 0x10325476;
+  const words = new Uint32Array(16);
+
+  for (let offset = 0; offset < paddedLength; offset += 64) {
+    for (let i = 0; i < 16; i++) {
+      words[i] = view.getUint32(offset + i * 4, true);
+    }
+
+    let a = a0, b = b0, c = c0, d = d0;
+    for (let i = 0; i < 64; i++) {
+      let f: number;
+      let g: number;
+      if (i < 16) {
+        f = (b & c) | (~b & d);
+        g = i;
+      } else if (i < 32) {
+        f = (d & b) | (~d & c);
+        g = (5 * i + 1) % 16;
+      } else if (i < 48) {
+        f = b ^ c ^ d;
+        g = (3 * i + 5) % 16;
+      } else {
+        f = c ^ (b | ~d);
+        g = (7 * i) % 16;
+      }
+
+      const sum = (a + f + MD5_CONSTANTS[i] + words[g]) >>> 0;
+      a = d;
+      d = c;
+      c = b;
+      b = (b + ((sum << MD5_SHIFTS[i]) | (sum >>> (32 - MD5_SHIFTS[i])))) >>> 0;
+    }
+
+    a0 = (a0 + a) >>> 0;
+    b0 = (b0 + b) >>> 0;
+    c0 = (c0 + c) >>> 0;
+    d0 = (d0 + d) >>> 0;
+  }
+
+  const digest = new DataView(new ArrayBuffer(16));
+  [a0, b0, c0, d0].forEach((word, i) => digest.setUint32(i * 4, word, true));
+  return toHex(digest.buffer);
+};
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import fc from 'fast-check';
+import { calculateDifficulty, getMaxCombo } from './difficultyCalculator';
+import { GameEngine } from './gameEngine';
+import { ManualClock } from './manualClock';
+import { parseOsuFile } from './osuParser';
+import { GameState } from '@/types/game';
+import engineFixture from '@/test/fixtures/engine.osu?raw';
+
+// AR 9, OD 5, CS 4: four circles, a slider with one tick and a spinner
+const beatmap = parseOsuFile(engineFixture, '');
+
+describe('getMaxCombo', () => {
+  it('matches the combo of a full combo played by GameEngine', () => {
+    const clock = new ManualClock();
+    const engine = new GameEngine({ clock, audio: null });
+    let finalState: GameState | null = null;
+    engine.loadBeatmap(beatmap);
+    engine.setMods(['auto']);
+    engine.onGameEnd = state => {
+      finalState = state;
+    };
+    engine.start();
+    while (!finalState && clock.getCurrentTime() < 10000) {
+      clock.advance(1000 / 60);
+      engine.update();
+    }
+
+    expect(finalState).not.toBeNull();
+    expect(finalState!.missCount).toBe(0);
+    // Four circles, the slider's head, tick and tail, and the spinner
+    expect(getMaxCombo(beatmap.hitObjects)).toBe(8);
+    expect(finalState!.maxCombo).toBe(getMaxCombo(beatmap.hitObjects));
+  });
+});
+
+describe('calculateDifficulty', () => {
+  const nomod = calculateDifficulty(beatmap);
+
+  it('counts objects by type', () => {
+    expect(nomod).toMatchObject({ hitCircleCount: 4, sliderCount: 1, spinnerCount: 1, maxCombo: 8 });
+  });
+
+  it('rates the map higher with DT and HR and lower with HT', () => {
+    expect(nomod.starRating).toBeGreaterThan(0);
+    expect(calculateDifficulty(beatmap, ['dt']).starRating).toBeGreaterThan(nomod.starRating);
+    expect(calculateDifficulty(beatmap, ['hr']).starRating).toBeGreaterThan(nomod.starRating);
+    expect(calculateDifficulty(beatmap, ['ht']).starRating).toBeLessThan(nomod.starRating);
+  });
+
+  it('gives AR and OD for the preempt and 300 window the player sees', () => {
+    // 600ms preempt and a 50ms window, both 1.5x shorter
+    const doubleTime = calculateDifficulty(beatmap, ['dt']);
+    expect(doubleTime.approachRate).toBeCloseTo(5 + (1200 - 400) / 150);
+    expect(doubleTime.overallDifficulty).toBeCloseTo((80 - 50 / 1.5) / 6);
+  });
+
+  it('keeps AR and OD unchanged without a rate mod', () => {
+    fc.assert(fc.property(
+      fc.integer({ min: 0, max: 100 }),
+      fc.integer({ min: 0, max: 100 }),
+      (ar, od) => {
+        const attributes = calculateDifficulty({ ...beatmap, approachRate: ar / 10, overallDifficulty: od / 10 });
+        expect(attributes.approachRate).toBeCloseTo(ar / 10);
+        expect(attributes.overallDifficulty).toBeCloseTo(od / 10);
+      }
+    ));
+  });
+});
@@ -0,0 +1,200 @@
+// Star rating from a beatmap's hit objects, after osu!'s strain model. Each
+// object adds to an aim and a speed strain that decay over time; the highest
+// strain in every section is weighted into a difficulty per skill, and the
+// two skills are combined into stars.
+
+import { Beatmap, HitObject } from '@/types/game';
+import { getSliderPosition, getTickDistances } from './sliderCurve';
+
+export interface DifficultyAttributes {
+  starRating: number;
+  aimRating: number;
+  speedRating: number;
+  // With mods and clock rate applied, as the player experiences them
+  approachRate: number;
+  overallDifficulty: number;
+  maxCombo: number;
+  hitCircleCount: number;
+  sliderCount: number;
+  spinnerCount: number;
+}
+
+// Strain peaks are taken per section of this many ms (after clock rate)
+const SECTION_LENGTH = 400;
+// Each lower peak counts for this much less than the one above it
+const DECAY_WEIGHT = 0.9;
+const STAR_SCALING = 0.0675;
+// Distances are scaled as if every circle had this radius
+const NORMALISED_RADIUS = 52;
+// Objects closer together than this are treated as this far apart in time
+const MIN_STRAIN_TIME = 50;
+// Jumps past this distance count as fully spaced for speed
+const SINGLE_SPACING = 125;
+
+interface DifficultyObject {
+  time: number; // ms after clock rate
+  strainTime: number; // ms since the previous object, at least MIN_STRAIN_TIME
+  jumpDistance: number; // normalised, from the previous object's end
+  travelDistance: number; // normalised, along the previous object if a slider
+}
+
+interface StrainSkill {
+  multiplier: number;
+  decayBase: number;
+  value: (object: DifficultyObject) => number;
+}
+
+const AIM: StrainSkill = {
+  multiplier: 26.25,
+  decayBase: 0.15,
+  value: object =>
+    (Math.pow(object.travelDistance, 0.99) + Math.pow(object.jumpDistance, 0.99)) / object.strainTime,
+};
+
+// Closely spaced streams are rated on tapping alone; wider spacing adds up to 2.5x
+const SPEED: StrainSkill = {
+  multiplier: 1400,
+  decayBase: 0.3,
+  value: object => {
+    const distance = Math.min(SINGLE_SPACING, object.jumpDistance + object.travelDistance);
+    let spacing = 0.95;
+    if (distance >= SINGLE_SPACING) spacing = 2.5;
+    else if (distance > 110) spacing = 1.6 + 0.9 * (distance - 110) / 15;
+    else if (distance > 90) spacing = 1.2 + 0.4 * (distance - 90) / 20;
+    else if (distance > 45) spacing = 0.95 + 0.25 * (distance - 45) / 45;
+    return spacing / object.strainTime;
+  },
+};
+
+/** Song speed under DT or HT */
+export function getClockRate(mods: string[]): number {
+  if (mods.includes('dt')) return 1.5;
+  if (mods.includes('ht')) return 0.75;
+  return 1;
+}
+
+// CS, AR and OD under EZ and HR, as GameEngine applies them
+function applyDifficultyMods(beatmap: Beatmap, mods: string[]) {
+  let cs = beatmap.circleSize;
+  let ar = beatmap.approachRate;
+  let od = beatmap.overallDifficulty;
+  if (mods.includes('ez')) {
+    cs *= 0.5;
+    ar *= 0.5;
+    od *= 0.5;
+  }
+  if (mods.includes('hr')) {
+    cs = Math.min(10, cs * 1.3);
+    ar = Math.min(10, ar * 1.4);
+    od = Math.min(10, od * 1.4);
+  }
+  return { cs, ar, od };
+}
+
+// AR and OD that give the same preempt and 300 window at a clock rate of 1
+function applyClockRate(ar: number, od: number, clockRate: number) {
+  const preempt = (ar < 5 ? 1800 - ar * 120 : 1200 - (ar - 5) * 150) / clockRate;
+  const perfectWindow = (80 - 6 * od) / clockRate;
+  return {
+    approachRate: preempt > 1200 ? (1800 - preempt) / 120 : 5 + (1200 - preempt) / 150,
+    overallDifficulty: (80 - perfectWindow) / 6,
+  };
+}
+
+/** Combo a full combo reaches: one per circle and spinner, and per slider head, tick, repeat and tail */
+export function getMaxCombo(hitObjects: HitObject[]): number {
+  let combo = 0;
+  for (const hitObject of hitObjects) {
+    if (hitObject.type !== 'slider') {
+      combo++;
+      continue;
+    }
+    const slides = Math.max(1, hitObject.slides);
+    const ticks = getTickDistances(hitObject.length, hitObject.tickDistance).length;
+    combo += 2 + slides * ticks + (slides - 1);
+  }
+  return combo;
+}
+
+function getEndPosition(hitObject: HitObject): { x: number; y: number } {
+  return hitObject.type === 'slider' ? getSliderPosition(hitObject, 1) : { x: hitObject.x, y: hitObject.y };
+}
+
+// Spinners neither move the cursor to them nor away from them
+function createDifficultyObjects(hitObjects: HitObject[], radius: number, clockRate: number): DifficultyObject[] {
+  let scaling = NORMALISED_RADIUS / radius;
+  // Small circles are harder to aim at than their spacing alone suggests
+  if (radius < 30) scaling *= 1 + Math.min(30 - radius, 5) / 50;
+
+  const objects: DifficultyObject[] = [];
+  for (let i = 1; i < hitObjects.length; i++) {
+    const current = hitObjects[i];
+    const previous = hitObjects[i - 1];
+    const spinner = current.type === 'spinner' || previous.type === 'spinner';
+    const end = getEndPosition(previous);
+
+    objects.push({
+      time: current.time / clockRate,
+      strainTime: Math.max(MIN_STRAIN_TIME, (current.time - previous.time) / clockRate),
+      jumpDistance: spinner ? 0 : Math.hypot(current.x - end.x, current.y - end.y) * scaling,
+      travelDistance: previous.type === 'slider' ? previous.length * Math.max(1, previous.slides) * scaling : 0,
+    });
+  }
+  return objects;
+}
+
+// Highest strain in each section, weighted from the highest down
+function calculateSkill(objects: DifficultyObject[], skill: StrainSkill): number {
+  if (objects.length === 0) return 0;
+
+  const decay = (ms: number) => Math.pow(skill.decayBase, ms / 1000);
+  const peaks: number[] = [];
+  let sectionEnd = Math.ceil(objects[0].time / SECTION_LENGTH) * SECTION_LENGTH;
+  let strain = 0;
+  let peak = 0;
+  let previousTime = objects[0].time;
+
+  for (const object of objects) {
+    while (object.time > sectionEnd) {
+      peaks.push(peak);
+      // The next section starts from the strain left when it begins
+      peak = strain * decay(sectionEnd - previousTime);
+      sectionEnd += SECTION_LENGTH;
+    }
+    strain = strain * decay(object.strainTime) + skill.value(object) * skill.multiplier;
+    peak = Math.max(peak, strain);
+    previousTime = object.time;
+  }
+  peaks.push(peak);
+
+  peaks.sort((a, b) => b - a);
+  let difficulty = 0;
+  let weight = 1;
+  for (const value of peaks) {
+    difficulty += value * weight;
+    weight *= DECAY_WEIGHT;
+  }
+  return difficulty;
+}
+
+/** Star rating and the attributes behind it for `beatmap` played with `mods` */
+export function calculateDifficulty(beatmap: Beatmap, mods: string[] = []): DifficultyAttributes {
+  const clockRate = getClockRate(mods);
+  const { cs, ar, od } = applyDifficultyMods(beatmap, mods);
+  const hitObjects = beatmap.hitObjects;
+  const objects = createDifficultyObjects(hitObjects, 54.4 - 4.48 * cs, clockRate);
+
+  const aimRating = Math.sqrt(calculateSkill(objects, AIM)) * STAR_SCALING;
+  const speedRating = Math.sqrt(calculateSkill(objects, SPEED)) * STAR_SCALING;
+
+  return {
+    starRating: aimRating + speedRating + Math.abs(aimRating - speedRating) / 2,
+    aimRating,
+    speedRating,
+    ...applyClockRate(ar, od, clockRate),
+    maxCombo: getMaxCombo(hitObjects),
+    hitCircleCount: hitObjects.filter(hitObject => hitObject.type === 'circle').length,
+    sliderCount: hitObjects.filter(hitObject => hitObject.type === 'slider').length,
+    spinnerCount: hitObjects.filter(hitObject => hitObject.type === 'spinner').length,
+  };
+}
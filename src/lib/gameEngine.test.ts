@@ -0,0 +1,450 @@
+import { describe, it, expect } from 'vitest';
+import fc from 'fast-check';
+import { GameEngine } from './gameEngine';
+import { ManualClock } from './manualClock';
+import { parseOsuFile } from './osuParser';
+import { compressFrames, decompressFrames } from './replayFrames';
+import { simulateReplay } from './replaySimulation';
+import { getGrade } from '@/types/score';
+import { GameState, HitJudgement, Replay, REPLAY_KEYS, ScoringMode } from '@/types/game';
+import engineFixture from '@/test/fixtures/engine.osu?raw';
+
+// Circles at 1000-2500ms every 500ms, a slider at 3000-3500ms with a tick at
+// 3250ms and a spinner at 4000-6000ms. OD 5 gives 50/100/150ms windows; HP 5
+// drains 0.003 HP/ms.
+const FRAME = 1000 / 60;
+const CIRCLES = [
+  { time: 1000, x: 100, y: 100 },
+  { time: 1500, x: 200, y: 100 },
+  { time: 2000, x: 300, y: 100 },
+  { time: 2500, x: 400, y: 100 },
+];
+
+const createGame = (mods: string[] = [], scoringMode: ScoringMode = 'classic', beatmap = parseOsuFile(engineFixture, '')) => {
+  const clock = new ManualClock();
+  const engine = new GameEngine({ clock, audio: null });
+  const judgements: HitJudgement[] = [];
+  let result: { state: GameState; replay: Replay } | null = null;
+
+  engine.loadBeatmap(beatmap);
+  engine.setMods(mods);
+  engine.setScoringMode(scoringMode);
+  engine.onJudgement = judgement => judgements.push(judgement);
+  engine.onGameEnd = (state, replay) => {
+    result = { state, replay };
+  };
+  engine.start();
+  // Where audioEngine.play would start the clock
+  clock.setTime(-engine.getLeadIn());
+
+  // Step the engine at 60fps, landing exactly on `time`
+  const runTo = (time: number) => {
+    while (clock.getCurrentTime() + FRAME < time) {
+      clock.advance(FRAME);
+      engine.update();
+    }
+    clock.setTime(time);
+    engine.update();
+  };
+
+  const tap = (time: number, x: number, y: number, key = REPLAY_KEYS.K1) => {
+    runTo(time);
+    engine.handleMouseMove(x, y);
+    engine.handleKeyDown(key);
+    engine.handleKeyUp(key);
+  };
+
+  // Keep the cursor on the fixture slider's ball, one move per frame
+  const followSlider = (from: number, to: number) => {
+    for (let time = from; time < to; time += FRAME) {
+      runTo(time);
+      engine.handleMouseMove(100 + (time - 3000) / 500 * 140, 300);
+    }
+  };
+
+  return { engine, clock, judgements, runTo, tap, followSlider, getResult: () => result };
+};
+
+const results = (judgements: HitJudgement[]) => judgements.map(judgement => judgement.result);
+
+describe('GameEngine', () => {
+  it('scores perfect hits with the combo multiplier', () => {
+    const game = createGame();
+    CIRCLES.forEach(circle => game.tap(circle.time, circle.x, circle.y));
+    game.runTo(2700);
+
+    const state = game.engine.getGameState();
+    expect(results(game.judgements)).toEqual(['perfect', 'perfect', 'perfect', 'perfect']);
+    expect(state.score).toBe(300 + 600 + 900 + 1200);
+    expect(state.combo).toBe(4);
+    expect(state.maxCombo).toBe(4);
+    expect(state.accuracy).toBe(100);
+    // Hits cap HP at 100; only the drain since the last hit remains
+    expect(state.hp).toBeCloseTo(100 - 0.003 * 200);
+  });
+
+  it('grades hits by how far they are from the object time', () => {
+    const game = createGame();
+    game.tap(1040, 100, 100);
+    game.tap(1575, 200, 100);
+    game.tap(1870, 300, 100);
+    game.runTo(2000);
+
+    const state = game.engine.getGameState();
+    expect(results(game.judgements)).toEqual(['perfect', 'great', 'good']);
+    expect(state.score).toBe(300 * 1 + 100 * 2 + 50 * 3);
+    expect(state).toMatchObject({ perfectCount: 1, greatCount: 1, goodCount: 1, missCount: 0 });
+    expect(state.accuracy).toBeCloseTo((300 + 100 + 50) / 900 * 100);
+  });
+
+  it('records signed hit errors and their unstable rate', () => {
+    const game = createGame();
+    game.tap(980, 100, 100);
+    game.tap(1520, 200, 100);
+    game.tap(2000, 300, 100);
+    game.runTo(2100);
+
+    expect(game.judgements.map(judgement => judgement.hitError)).toEqual([-20, 20, 0]);
+    const state = game.engine.getGameState();
+    expect(state.meanHitError).toBe(0);
+    expect(state.unstableRate).toBeCloseTo(Math.sqrt((400 + 400 + 0) / 3) * 10);
+  });
+
+  it('judges against the song time less the audio offset', () => {
+    const game = createGame(['dt']);
+    game.engine.setAudioOffset(20);
+    // 20ms of real time is 30ms of song time at 1.5x
+    game.tap(1030, 100, 100);
+
+    expect(game.engine.getCurrentTime()).toBe(1000);
+    expect(game.judgements[0].hitError).toBe(0);
+  });
+
+  it('misses objects once their hit window has passed', () => {
+    const game = createGame();
+    game.runTo(1150);
+    expect(game.judgements).toHaveLength(0);
+
+    game.runTo(1200);
+    const state = game.engine.getGameState();
+    expect(results(game.judgements)).toEqual(['miss']);
+    expect(state).toMatchObject({ score: 0, combo: 0, missCount: 1, accuracy: 0 });
+    // Drain starts at the first object
+    expect(state.hp).toBeCloseTo(100 - 0.003 * 200 - 5);
+  });
+
+  it('breaks combo on a miss', () => {
+    const game = createGame();
+    game.tap(1000, 100, 100);
+    game.tap(1500, 200, 100);
+    game.tap(2500, 400, 100);
+    game.runTo(2700);
+
+    const state = game.engine.getGameState();
+    expect(results(game.judgements)).toEqual(['perfect', 'perfect', 'miss', 'perfect']);
+    expect(state).toMatchObject({ combo: 1, maxCombo: 2, score: 300 + 600 + 300 });
+  });
+
+  it('ignores presses outside the circle', () => {
+    const game = createGame();
+    game.tap(1000, 300, 300);
+    expect(game.judgements).toHaveLength(0);
+
+    game.runTo(1200);
+    expect(results(game.judgements)).toEqual(['miss']);
+  });
+
+  it('needs a new press for each hit', () => {
+    const game = createGame();
+    game.runTo(1000);
+    game.engine.handleMouseMove(100, 100);
+    game.engine.handleKeyDown(REPLAY_KEYS.K1);
+    game.runTo(1500);
+    game.engine.handleMouseMove(200, 100);
+    game.engine.handleKeyDown(REPLAY_KEYS.K1);
+    expect(results(game.judgements)).toEqual(['perfect']);
+
+    game.engine.handleKeyDown(REPLAY_KEYS.K2);
+    expect(results(game.judgements)).toEqual(['perfect', 'perfect']);
+  });
+
+  it('applies Hard Rock to hit windows', () => {
+    // OD 7 under HR: the 300 window shrinks from 50ms to 38ms
+    const normal = createGame();
+    normal.tap(1045, 100, 100);
+    const hardRock = createGame(['hr']);
+    hardRock.tap(1045, 100, 100);
+
+    expect(results(normal.judgements)).toEqual(['perfect']);
+    expect(results(hardRock.judgements)).toEqual(['great']);
+    expect(hardRock.engine.getGameState().score).toBe(Math.floor(100 * 1.06));
+  });
+
+  it('scores the head, ticks and tail of a followed slider', () => {
+    const game = createGame();
+    game.tap(3000, 100, 300);
+    game.engine.handleKeyDown(REPLAY_KEYS.K1);
+    game.followSlider(3000, 3500);
+    game.runTo(3520);
+
+    const state = game.engine.getGameState();
+    expect(results(game.judgements)).toEqual(['miss', 'miss', 'miss', 'miss', 'perfect']);
+    expect(game.judgements[4].time).toBeGreaterThanOrEqual(3500);
+    // 30 head, 10 tick and 30 tail, then a 300 at the combo of 3 they built
+    expect(state).toMatchObject({ score: 30 + 10 + 30 + 300 * 3, combo: 3 });
+  });
+
+  it('breaks combo on a missed tick and grades the slider by parts hit', () => {
+    const game = createGame();
+    game.runTo(3000);
+    game.engine.handleMouseMove(100, 300);
+    game.engine.handleKeyDown(REPLAY_KEYS.K1);
+    game.followSlider(3000, 3200);
+    game.engine.handleKeyUp(REPLAY_KEYS.K1);
+    game.followSlider(3200, 3300);
+    game.engine.handleKeyDown(REPLAY_KEYS.K1);
+    game.followSlider(3300, 3500);
+    game.runTo(3520);
+
+    // Head and tail of three parts: a 100 at the combo of 1 the tail rebuilt
+    expect(results(game.judgements).slice(4)).toEqual(['great']);
+    expect(game.engine.getGameState()).toMatchObject({ score: 30 + 30 + 100, combo: 1, maxCombo: 1 });
+  });
+
+  it('lets a slider be followed after its head is missed', () => {
+    const game = createGame();
+    game.runTo(2990);
+    // Inside the follow circle but outside the head
+    game.engine.handleMouseMove(150, 300);
+    game.engine.handleKeyDown(REPLAY_KEYS.K1);
+    game.followSlider(3000, 3500);
+    game.runTo(3520);
+
+    expect(results(game.judgements).slice(4)).toEqual(['great']);
+    expect(game.engine.getGameState()).toMatchObject({ score: 10 + 30 + 100 * 2, combo: 2 });
+  });
+
+  it('re-simulates a slider re-entered just before a tick', () => {
+    const game = createGame();
+    game.runTo(3000);
+    game.engine.handleMouseMove(100, 300);
+    game.engine.handleKeyDown(REPLAY_KEYS.K1);
+    // Off the follow circle after the head
+    game.engine.handleMouseMove(100, 500);
+    game.runTo(3200);
+    // Back on the ball between frames; the next update judges the 3250ms tick
+    // and records the frame with this position
+    game.engine.handleMouseMove(170, 300);
+    game.clock.setTime(3250);
+    game.engine.update();
+    game.followSlider(3250 + FRAME, 3500);
+    game.runTo(8000);
+
+    const result = game.getResult();
+    expect(results(game.judgements)[4]).toBe('perfect');
+    const simulation = simulateReplay(parseOsuFile(engineFixture, ''), result!.replay);
+    expect(simulation.getDesync()).toBeNull();
+    expect(simulation.getGameState()).toMatchObject({ greatCount: 0, maxCombo: result!.state.maxCombo });
+  });
+
+  it('clears a spinner spun enough times', () => {
+    const game = createGame();
+    game.runTo(4000);
+    game.engine.handleKeyDown(REPLAY_KEYS.K1);
+    // Eight moves per turn around the centre, one per frame: 7.5 turns a second
+    let step = 0;
+    for (let time = 4000; time < 6000; time += FRAME) {
+      game.runTo(time);
+      const angle = (step++ / 8) * Math.PI * 2;
+      game.engine.handleMouseMove(256 + Math.cos(angle) * 80, 192 + Math.sin(angle) * 80);
+    }
+    game.runTo(6000);
+
+    expect(game.judgements[game.judgements.length - 1].result).toBe('perfect');
+    expect(game.engine.getActiveSpinners().size).toBe(0);
+  });
+
+  it('scales standardised scores to 1,000,000 for a perfect play', () => {
+    const game = createGame(['auto'], 'standardised');
+    game.runTo(8000);
+
+    const result = game.getResult();
+    expect(result!.state).toMatchObject({ score: 1000000, accuracy: 100, missCount: 0 });
+    expect(result!.replay.scoringMode).toBe('standardised');
+  });
+
+  it('weights standardised scores by combo and accuracy', () => {
+    const fullCombo = createGame([], 'standardised');
+    CIRCLES.forEach(circle => fullCombo.tap(circle.time, circle.x, circle.y));
+    const broken = createGame([], 'standardised');
+    CIRCLES.forEach((circle, i) => i !== 1 && broken.tap(circle.time, circle.x, circle.y));
+    const inaccurate = createGame([], 'standardised');
+    CIRCLES.forEach((circle, i) => inaccurate.tap(circle.time + (i === 1 ? 75 : 0), circle.x, circle.y));
+    [fullCombo, broken, inaccurate].forEach(game => game.runTo(2700));
+
+    const score = (game: typeof fullCombo) => game.engine.getGameState().score;
+    // Only part of the map is played, so nothing is near the maximum yet
+    expect(score(fullCombo)).toBeLessThan(1000000);
+    expect(score(broken)).toBeLessThan(score(inaccurate));
+    expect(score(inaccurate)).toBeLessThan(score(fullCombo));
+  });
+
+  it('leads in before 0 for the countdown, on the beat before the first object', () => {
+    const beatmap = parseOsuFile(engineFixture, '');
+    beatmap.countdown = 1;
+    const engine = new GameEngine({ clock: new ManualClock(), audio: null });
+    engine.loadBeatmap(beatmap);
+
+    expect(engine.getCountdownTimes()).toEqual([-1000, -500, 0, 500]);
+    expect(engine.getLeadIn()).toBe(1000);
+
+    beatmap.audioLeadIn = 2500;
+    expect(engine.getLeadIn()).toBe(2500);
+  });
+
+  it('re-simulates a replay recorded from the start of the lead-in', () => {
+    const beatmap = parseOsuFile(engineFixture, '');
+    beatmap.countdown = 1;
+    const game = createGame([], 'classic', beatmap);
+    CIRCLES.forEach(circle => game.tap(circle.time, circle.x, circle.y));
+    game.runTo(8000);
+
+    const replay = game.getResult()!.replay;
+    expect(replay.frames[0].time).toBeLessThan(0);
+    const simulation = simulateReplay(beatmap, replay);
+    expect(simulation.getDesync()).toBeNull();
+    expect(simulation.getGameState()).toMatchObject({ perfectCount: 4, missCount: 2 });
+  });
+
+  it('offers to skip a long intro up to shortly before the first approach', () => {
+    const beatmap = parseOsuFile(engineFixture, '');
+    beatmap.hitObjects = beatmap.hitObjects.map(hitObject => hitObject.type === 'spinner'
+      ? { ...hitObject, time: hitObject.time + 5000, endTime: hitObject.endTime + 5000 }
+      : { ...hitObject, time: hitObject.time + 5000 });
+    const clock = new ManualClock();
+    const engine = new GameEngine({ clock, audio: null });
+    engine.loadBeatmap(beatmap);
+    engine.start();
+
+    clock.setTime(100);
+    engine.update();
+    // AR 9 approaches over 600ms; the skip lands 500ms before that
+    expect(engine.getSkipTarget()).toBe(6000 - 600 - 500);
+
+    clock.setTime(5000);
+    engine.update();
+    expect(engine.getSkipTarget()).toBeNull();
+    expect(engine.getGameState().hp).toBe(100);
+  });
+
+  it('ends after the last object and re-simulates its own replay exactly', () => {
+    const game = createGame();
+    CIRCLES.forEach(circle => game.tap(circle.time, circle.x, circle.y));
+    game.runTo(8000);
+
+    const result = game.getResult();
+    expect(result).not.toBeNull();
+    expect(game.engine.isGameRunning()).toBe(false);
+
+    const simulation = simulateReplay(parseOsuFile(engineFixture, ''), result!.replay);
+    expect(simulation.getDesync()).toBeNull();
+    expect(simulation.getGameState()).toMatchObject({
+      score: result!.state.score,
+      maxCombo: result!.state.maxCombo,
+      perfectCount: 4,
+      missCount: 2,
+    });
+  });
+
+  // Plays the fixture with updates 2-25ms apart, pointer events between them
+  // at fractional positions and taps up to 80ms off
+  const playUnevenly = (seed: number) => {
+    // Small LCG so each run is repeatable from its seed
+    let state = seed >>> 0;
+    const random = () => {
+      state = (Math.imul(state, 1664525) + 1013904223) >>> 0;
+      return state / 2 ** 32;
+    };
+    const jitter = (amount: number) => (random() * 2 - 1) * amount;
+
+    // Where a player would aim: each circle in turn, near the slider ball
+    // (crossing the follow circle edge) and round the spinner
+    const aimAt = (time: number) => {
+      if (time < 2750) {
+        const circle = CIRCLES.find(c => time < c.time + 250) ?? CIRCLES[3];
+        return { x: circle.x + jitter(30), y: circle.y + jitter(30) };
+      }
+      if (time < 3600) {
+        const progress = Math.max(0, Math.min(1, (time - 3000) / 500));
+        return { x: 100 + progress * 140 + jitter(110), y: 300 + jitter(110) };
+      }
+      const angle = time / 40;
+      return { x: 256 + Math.cos(angle) * 80 + jitter(10), y: 192 + Math.sin(angle) * 80 + jitter(10) };
+    };
+    // Taps up to 80ms off each circle, then holds for the slider and spinner
+    const taps = CIRCLES.map(circle => circle.time + jitter(80));
+    const holds = [{ from: 2980 + jitter(40), to: 3500 + jitter(40) }, { from: 4000, to: 6000 }];
+
+    const game = createGame();
+    const { engine, clock } = game;
+    let key = REPLAY_KEYS.K1;
+    let held = false;
+    while (!game.getResult() && clock.getCurrentTime() < 9000) {
+      const time = clock.getCurrentTime() + 2 + random() * 23;
+      // Pointer events arrive between updates, any number of them
+      for (let moves = Math.floor(random() * 4); moves > 0; moves--) {
+        const aim = aimAt(time - random() * 10);
+        engine.handleMouseMove(aim.x, aim.y);
+      }
+      clock.setTime(time);
+      engine.update();
+
+      const tapping = taps.some(tap => tap <= time && time < tap + 30);
+      const holding = holds.some(hold => hold.from <= time && time < hold.to);
+      if ((tapping || holding) && !held) {
+        engine.handleKeyDown(key);
+        held = true;
+      } else if (!tapping && !holding && held) {
+        engine.handleKeyUp(key);
+        held = false;
+        key = key === REPLAY_KEYS.K1 ? REPLAY_KEYS.K2 : REPLAY_KEYS.K1;
+      }
+    }
+
+    const result = game.getResult();
+    expect(result).not.toBeNull();
+    return result!;
+  };
+
+  it('re-simulates plays at uneven update times exactly', () => {
+    fc.assert(fc.property(fc.integer(), seed => {
+      const result = playUnevenly(seed);
+      const simulation = simulateReplay(parseOsuFile(engineFixture, ''), result.replay);
+      expect(simulation.getDesync()).toBeNull();
+      expect(simulation.getGameState().score).toBe(result.state.score);
+    }), { numRuns: 40 });
+  });
+
+  it('re-simulates stored replays exactly', () => {
+    fc.assert(fc.property(fc.integer(), seed => {
+      const result = playUnevenly(seed);
+      const frames = decompressFrames(compressFrames(result.replay.frames));
+      const simulation = simulateReplay(parseOsuFile(engineFixture, ''), { ...result.replay, frames });
+      expect(simulation.getDesync()).toBeNull();
+      expect(simulation.getGameState().score).toBe(result.state.score);
+    }), { numRuns: 40 });
+  });
+});
+
+describe('getGrade', () => {
+  it('grades by accuracy, one step lower with misses', () => {
+    expect(getGrade(100, 0)).toBe('SS');
+    expect(getGrade(95, 0)).toBe('S');
+    expect(getGrade(95, 1)).toBe('A');
+    expect(getGrade(90, 0)).toBe('A');
+    expect(getGrade(90, 2)).toBe('B');
+    expect(getGrade(80, 0)).toBe('B');
+    expect(getGrade(80, 1)).toBe('C');
+    expect(getGrade(70, 0)).toBe('D');
+  });
+});
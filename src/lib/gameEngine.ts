@@ -7,21 +7,91 @@ import {
   GameState, 
   HitJudgement, 
   HitResult,
+  HitError,
   HIT_WINDOWS,
   SCORE_VALUES,
   HP_CHANGES,
+  SLIDER_PART_SCORES,
+  SLIDER_PART_HP,
   ReplayFrame,
   Replay,
-  TimingPoint
+  LifeBarPoint,
+  REPLAY_KEYS,
+  TimingPoint,
+  ScoringMode
 } from '@/types/game';
 import { audioEngine } from './audioEngine';
+import { getSliderPosition, getTickDistances } from './sliderCurve';
+import { resolveHitSamples, resolveTickSample, SampleSetOverride, ResolvedSample } from './hitsounds';
+import { getCountdownTimes } from './timing';
+import { quantiseFramePosition, quantiseFrameTime } from './replayFrames';
+
+// How often HP is sampled for the replay life bar graph (ms)
+const LIFE_BAR_INTERVAL = 1000;
+// Longest gap between replay frames (ms). Updates that move the cursor,
+// change the keys or judge anything are always recorded, and presses and
+// releases as they happen, so a replay re-simulates every update that mattered
+const REPLAY_FRAME_INTERVAL = 1000 / 60;
+// HP drained per ms of song time per point of HP drain rate (0.01 per 60fps frame)
+const HP_DRAIN_PER_MS = 0.0006;
+// The tail is checked this long before the slider ends, as in osu!
+const SLIDER_TAIL_LENIENCY = 36;
+// Follow circle radius, in circle radii
+const FOLLOW_RADIUS = 2.5;
+// Standardised scoring: the score of a perfect play before mods, and the
+// share of it that comes from combo rather than accuracy
+const STANDARDISED_MAX_SCORE = 1000000;
+const STANDARDISED_COMBO_SHARE = 0.7;
+// A judgement's combo portion grows with the square root of the combo it
+// was hit at, so long combos still count for more without running away
+const STANDARDISED_COMBO_EXPONENT = 0.5;
+// A skip lands this long before the next approach (or countdown) begins
+const SKIP_MARGIN = 500;
+// Gaps that would save less than this are not offered as a skip
+const MIN_SKIP_LENGTH = 1000;
+
+// Where the engine reads the song position from on each update
+export interface GameClock {
+  getCurrentTime(): number;
+}
+
+// The music transport and hitsound output the engine drives
+export interface AudioController {
+  play(startOffset?: number): void;
+  stop(): void;
+  pause(): void;
+  resume(): void;
+  setPlaybackRate(rate: number): void;
+  getDuration(): number;
+  getOutputLatency(): number;
+  seekTo(time: number): void;
+  playSamples(samples: ResolvedSample[]): void;
+}
+
+// Both default to audioEngine. A ManualClock with no audio steps the engine
+// by explicit timestamps, for replays and tests.
+export interface GameEngineOptions {
+  clock?: GameClock;
+  audio?: AudioController | null;
+}
+
+interface SliderEvent {
+  time: number;
+  type: 'tick' | 'repeat' | 'tail';
+  edgeIndex: number; // for repeats and the tail: which slider edge is reached
+}
 
+// A slider from its start time (or an early head hit) until its final judgement.
+// The head and every event are parts; the grade is the share of parts hit.
 interface ActiveSlider {
   slider: Slider;
   progress: number;
-  ticksHit: number;
   isHeld: boolean;
-  startHit: boolean;
+  headResult: HitResult | null; // null until the head is hit or its window passes
+  headError?: number; // signed, carried onto the final judgement
+  events: SliderEvent[];
+  nextEvent: number;
+  partsHit: number;
 }
 
 interface ActiveSpinner {
@@ -34,18 +104,39 @@ interface ActiveSpinner {
 }
 
 export class GameEngine {
+  private clock: GameClock;
+  private audio: AudioController | null;
   private beatmap: Beatmap | null = null;
   private gameState: GameState;
   private judgements: HitJudgement[] = [];
+  private hitErrors: HitError[] = [];
   private activeSliders: Map<number, ActiveSlider> = new Map();
   private activeSpinners: Map<number, ActiveSpinner> = new Map();
   private processedObjects: Set<number> = new Set();
   private currentTime: number = 0;
+  private lastUpdateTime: number = 0;
   private isRunning: boolean = false;
   private mods: Set<string> = new Set();
+  private scoringMode: ScoringMode = 'classic';
+  private playbackRate: number = 1;
+  // Player offset on top of the output latency (ms, positive when sound reaches them late)
+  private audioOffset: number = 0;
+  // The map's countdown cues, and the next one to sound
+  private countdownTimes: number[] = [];
+  private nextCountdownCue: number = 0;
+  // Standardised totals so far, and what a perfect play reaches
+  private comboPortion: number = 0;
+  private accuracyPortion: number = 0;
+  private maxComboPortion: number = 0;
+  private maxAccuracyPortion: number = 0;
   private replayFrames: ReplayFrame[] = [];
+  // Set by every judgement, even one that changes nothing (a missed slider
+  // tail), and when a spinner takes its first angle; the next update is recorded
+  private judgedSinceFrame = false;
+  private lifeBar: LifeBarPoint[] = [];
   private lastMousePos: { x: number; y: number } = { x: 0, y: 0 };
   private keysPressed: number = 0;
+  private heldKeys: Set<number> = new Set();
   
   // Callbacks
   public onJudgement: ((judgement: HitJudgement) => void) | null = null;
@@ -58,7 +149,9 @@ export class GameEngine {
   private approachTime: number = 800;
   private hitWindows: { perfect: number; great: number; good: number } = { ...HIT_WINDOWS };
 
-  constructor() {
+  constructor(options: GameEngineOptions = {}) {
+    this.clock = options.clock ?? audioEngine;
+    this.audio = options.audio === undefined ? audioEngine : options.audio;
     this.gameState = this.createInitialState();
   }
 
@@ -73,6 +166,8 @@ export class GameEngine {
       greatCount: 0,
       goodCount: 0,
       missCount: 0,
+      unstableRate: 0,
+      meanHitError: 0,
     };
   }
 
@@ -80,6 +175,11 @@ export class GameEngine {
     this.beatmap = beatmap;
     this.reset();
     this.calculateDifficultyValues();
+    this.calculateStandardisedMaximum();
+    const firstObject = beatmap.hitObjects[0];
+    this.countdownTimes = firstObject
+      ? getCountdownTimes(beatmap.timingPoints, firstObject.time, beatmap.countdown)
+      : [];
   }
 
   private calculateDifficultyValues(): void {
@@ -127,60 +227,147 @@ export class GameEngine {
     
     // Adjust playback rate
     if (this.mods.has('dt')) {
-      audioEngine.setPlaybackRate(1.5);
+      this.playbackRate = 1.5;
     } else if (this.mods.has('ht')) {
-      audioEngine.setPlaybackRate(0.75);
+      this.playbackRate = 0.75;
     } else {
-      audioEngine.setPlaybackRate(1);
+      this.playbackRate = 1;
     }
+    this.audio?.setPlaybackRate(this.playbackRate);
+  }
+
+  /** Global plus per-map offset, in ms of real time */
+  setAudioOffset(offset: number): void {
+    this.audioOffset = offset;
+  }
+
+  getAudioOffset(): number {
+    return this.audioOffset;
+  }
+
+  setScoringMode(mode: ScoringMode): void {
+    this.scoringMode = mode;
+  }
+
+  getScoringMode(): ScoringMode {
+    return this.scoringMode;
   }
 
   reset(): void {
     this.gameState = this.createInitialState();
+    this.comboPortion = 0;
+    this.accuracyPortion = 0;
     this.judgements = [];
+    this.hitErrors = [];
+    this.nextCountdownCue = 0;
     this.activeSliders.clear();
     this.activeSpinners.clear();
     this.processedObjects.clear();
     this.currentTime = 0;
+    this.lastUpdateTime = 0;
     this.replayFrames = [];
+    this.judgedSinceFrame = false;
+    this.lifeBar = [];
+    this.heldKeys.clear();
+    this.keysPressed = 0;
   }
 
   start(): void {
     if (!this.beatmap) return;
     this.reset();
     this.isRunning = true;
-    audioEngine.play(0);
+    this.audio?.play(-this.getLeadIn());
+  }
+
+  /**
+   * How long before the song starts the game does (ms): the map's
+   * AudioLeadIn, or enough for the first approach and the countdown
+   */
+  getLeadIn(): number {
+    const firstObject = this.beatmap?.hitObjects[0];
+    if (!firstObject) return 0;
+    const earliest = Math.min(firstObject.time - this.approachTime, this.countdownTimes[0] ?? Infinity);
+    return Math.max(0, this.beatmap.audioLeadIn, -earliest);
+  }
+
+  getCountdownTimes(): number[] {
+    return this.countdownTimes;
+  }
+
+  /**
+   * Where skipping now would land, during the intro or a break: shortly before
+   * the next object's approach, or the countdown ahead of the first object.
+   * Null when there is nothing worth skipping.
+   */
+  getSkipTarget(): number | null {
+    if (!this.isRunning || !this.beatmap) return null;
+
+    const time = this.currentTime;
+    const hitObjects = this.beatmap.hitObjects;
+    const nextIndex = hitObjects.findIndex(hitObject => hitObject.time > time);
+    if (nextIndex < 0) return null;
+    const inBreak = this.beatmap.breaks.some(b => time >= b.startTime && time <= b.endTime);
+    if (nextIndex > 0 && !inBreak) return null;
+
+    let target = hitObjects[nextIndex].time - this.approachTime;
+    if (nextIndex === 0 && this.countdownTimes.length > 0) {
+      target = Math.min(target, this.countdownTimes[0]);
+    }
+    target -= SKIP_MARGIN;
+    return target - time >= MIN_SKIP_LENGTH ? target : null;
+  }
+
+  skip(): void {
+    const target = this.getSkipTarget();
+    if (target === null) return;
+    this.audio?.seekTo(target + this.getClockDelay());
+    // Cues skipped over stay silent
+    while (this.nextCountdownCue < this.countdownTimes.length && this.countdownTimes[this.nextCountdownCue] < target) {
+      this.nextCountdownCue++;
+    }
+  }
+
+  // Song time the player hears the music behind the clock: the output
+  // latency and their offset, both real ms and so scaled to song time
+  private getClockDelay(): number {
+    return (this.audioOffset + (this.audio?.getOutputLatency() ?? 0)) * this.playbackRate;
   }
 
   stop(): void {
     this.isRunning = false;
-    audioEngine.stop();
+    this.audio?.stop();
   }
 
   pause(): void {
     this.isRunning = false;
-    audioEngine.pause();
+    this.audio?.pause();
   }
 
   resume(): void {
     this.isRunning = true;
-    audioEngine.resume();
+    this.audio?.resume();
   }
 
   update(): void {
     if (!this.isRunning || !this.beatmap) return;
 
-    this.currentTime = audioEngine.getCurrentTime();
-    
-    // Apply speed mod
-    const timeMultiplier = this.mods.has('dt') ? 1.5 : this.mods.has('ht') ? 0.75 : 1;
+    // Judge and draw the song as the player hears it
+    // Whole ms, as replays store it
+    this.currentTime = quantiseFrameTime(this.clock.getCurrentTime() - this.getClockDelay());
+    // HP only drains from the first object on, so skipping the intro costs nothing
+    const drainStart = Math.max(this.lastUpdateTime, this.beatmap.hitObjects[0]?.time ?? 0);
+    const elapsed = Math.max(0, this.currentTime - drainStart);
+    this.lastUpdateTime = this.currentTime;
+
+    this.playCountdownCues();
     
     // Auto mod - play automatically
     if (this.mods.has('auto')) {
       this.updateAuto();
     }
     
-    // Auto-activate spinners when they start
+    // Sliders and spinners become active when they start
+    this.activateSliders();
     this.activateSpinners();
     
     // Check for missed objects (skip if auto mod)
@@ -192,6 +379,7 @@ export class GameEngine {
     this.updateActiveSliders();
     
     // Update active spinners
+    this.updateSpinnerRotation();
     this.updateActiveSpinners();
     
     // Check if in break period - no HP drain during breaks
@@ -199,9 +387,9 @@ export class GameEngine {
       b => this.currentTime >= b.startTime && this.currentTime <= b.endTime
     );
     
-    // HP drain (not during breaks)
+    // HP drain (not during breaks), by song time so it does not depend on frame rate
     if (this.gameState.hp > 0 && !inBreak) {
-      const drainRate = this.beatmap.hpDrainRate * 0.01 * timeMultiplier;
+      const drainRate = this.beatmap.hpDrainRate * HP_DRAIN_PER_MS * elapsed;
       if (this.mods.has('ez')) {
         this.gameState.hp -= drainRate * 0.5;
       } else {
@@ -215,6 +403,23 @@ export class GameEngine {
         }
       }
     }
+
+    const lastFrame = this.replayFrames[this.replayFrames.length - 1];
+    if (
+      !lastFrame ||
+      this.judgedSinceFrame ||
+      lastFrame.x !== this.lastMousePos.x ||
+      lastFrame.y !== this.lastMousePos.y ||
+      lastFrame.keys !== this.keysPressed ||
+      this.currentTime - lastFrame.time >= REPLAY_FRAME_INTERVAL
+    ) {
+      this.recordFrame();
+    }
+
+    const lastSample = this.lifeBar[this.lifeBar.length - 1];
+    if (!lastSample || this.currentTime - lastSample.time >= LIFE_BAR_INTERVAL) {
+      this.lifeBar.push({ time: this.currentTime, hp: this.gameState.hp / 100 });
+    }
     
     // Check if all objects processed - end game when no more objects
     const allProcessed = this.processedObjects.size >= this.beatmap.hitObjects.length;
@@ -232,7 +437,7 @@ export class GameEngine {
     }
     
     // Fallback: check if song ended
-    if (this.currentTime >= audioEngine.getDuration()) {
+    if (this.audio && this.currentTime >= this.audio.getDuration()) {
       this.endGame();
     }
 
@@ -241,6 +446,17 @@ export class GameEngine {
     }
   }
 
+  private playCountdownCues(): void {
+    while (
+      this.nextCountdownCue < this.countdownTimes.length &&
+      this.countdownTimes[this.nextCountdownCue] <= this.currentTime
+    ) {
+      const isGo = this.nextCountdownCue === this.countdownTimes.length - 1;
+      this.audio?.playSamples([{ set: 'normal', name: isGo ? 'hitfinish' : 'hitnormal', volume: 0.8 }]);
+      this.nextCountdownCue++;
+    }
+  }
+
   private updateAuto(): void {
     if (!this.beatmap) return;
 
@@ -252,28 +468,21 @@ export class GameEngine {
         // Hit circles at their time
         if (this.currentTime >= obj.time && this.currentTime <= obj.time + 50) {
           this.lastMousePos = { x: obj.x, y: obj.y };
-          this.processHit(i, 'perfect', obj);
+          this.processHit(i, 'perfect', obj, true, this.recordHitError(obj));
         }
       } else if (obj.type === 'slider') {
         const slider = obj as Slider;
-        // Start slider at its time
+        // Hit the head at its time
         if (this.currentTime >= slider.time && !this.activeSliders.has(i)) {
           this.lastMousePos = { x: slider.x, y: slider.y };
-          this.activeSliders.set(i, {
-            slider,
-            progress: 0,
-            ticksHit: slider.tickCount,
-            isHeld: true,
-            startHit: true,
-          });
-          this.addScore(100, true);
+          this.hitSliderHead(this.startSlider(i, slider), 'perfect', this.recordHitError(slider));
         }
-        // Update slider position for auto
+        // Follow the ball; auto counts as tracking (see isTracking)
         const activeSlider = this.activeSliders.get(i);
         if (activeSlider) {
-          const pos = this.getSliderPosition(slider, activeSlider.progress);
+          const pos = getSliderPosition(slider, activeSlider.progress);
           this.lastMousePos = { x: pos.x, y: pos.y };
-          activeSlider.ticksHit = slider.tickCount; // Always hit all ticks
+          activeSlider.isHeld = true;
         }
       } else if (obj.type === 'spinner') {
         const spinner = obj as Spinner;
@@ -289,6 +498,33 @@ export class GameEngine {
     }
   }
 
+  private activateSliders(): void {
+    if (!this.beatmap) return;
+
+    for (let i = 0; i < this.beatmap.hitObjects.length; i++) {
+      const obj = this.beatmap.hitObjects[i];
+      if (obj.type !== 'slider') continue;
+      if (this.processedObjects.has(i) || this.activeSliders.has(i)) continue;
+      if (this.currentTime >= obj.time) {
+        this.startSlider(i, obj);
+      }
+    }
+  }
+
+  private startSlider(index: number, slider: Slider): ActiveSlider {
+    const activeSlider: ActiveSlider = {
+      slider,
+      progress: 0,
+      isHeld: false,
+      headResult: null,
+      events: this.getSliderEvents(slider),
+      nextEvent: 0,
+      partsHit: 0,
+    };
+    this.activeSliders.set(index, activeSlider);
+    return activeSlider;
+  }
+
   private activateSpinners(): void {
     if (!this.beatmap) return;
 
@@ -321,16 +557,9 @@ export class GameEngine {
 
       const missTime = obj.time + this.hitWindows.good;
       
+      // Slider heads are missed in updateActiveSliders
       if (obj.type === 'circle' && this.currentTime > missTime) {
         this.processHit(i, 'miss', obj);
-      } else if (obj.type === 'slider') {
-        const slider = obj as Slider;
-        const sliderEnd = slider.time + slider.duration;
-        if (this.currentTime > sliderEnd + this.hitWindows.good && !this.activeSliders.has(i)) {
-          if (!this.processedObjects.has(i)) {
-            this.processHit(i, 'miss', obj);
-          }
-        }
       } else if (obj.type === 'spinner') {
         const spinner = obj as Spinner;
         if (this.currentTime > spinner.endTime && !this.activeSpinners.has(i)) {
@@ -348,12 +577,36 @@ export class GameEngine {
     for (const [index, activeSlider] of this.activeSliders) {
       const slider = activeSlider.slider;
       const elapsed = this.currentTime - slider.time;
-      activeSlider.progress = Math.min(1, elapsed / slider.duration);
+      activeSlider.progress = Math.max(0, Math.min(1, elapsed / slider.duration));
+
+      // A head not hit within its window breaks combo, but the rest can still be followed
+      if (activeSlider.headResult === null && this.currentTime > slider.time + this.hitWindows.good) {
+        activeSlider.headResult = 'miss';
+        this.breakCombo();
+      }
 
-      // Check slider end
-      if (activeSlider.progress >= 1) {
-        const result = activeSlider.ticksHit >= slider.tickCount * 0.5 ? 'great' : 'good';
-        this.processHit(index, result, slider);
+      // Judge every part passed since the last update, against the cursor now
+      while (
+        activeSlider.nextEvent < activeSlider.events.length &&
+        activeSlider.events[activeSlider.nextEvent].time <= this.currentTime
+      ) {
+        const event = activeSlider.events[activeSlider.nextEvent++];
+        this.judgeSliderEvent(activeSlider, event);
+      }
+
+      // Final judgement from the share of parts hit, once the slider is over
+      if (activeSlider.progress >= 1 && activeSlider.nextEvent >= activeSlider.events.length) {
+        const parts = activeSlider.events.length + 1;
+        const hitFraction = activeSlider.partsHit / parts;
+        const result: HitResult = hitFraction >= 1
+          ? 'perfect'
+          : hitFraction >= 0.5
+            ? 'great'
+            : hitFraction > 0
+              ? 'good'
+              : 'miss';
+        // Combo was already counted part by part
+        this.processHit(index, result, slider, false, activeSlider.headError);
         slidersToRemove.push(index);
       }
     }
@@ -364,6 +617,40 @@ export class GameEngine {
     }
   }
 
+  // Spinners turn by the cursor's angle at each update, so the rotation
+  // only depends on positions a replay records
+  private updateSpinnerRotation(): void {
+    const { x, y } = this.lastMousePos;
+    for (const [, activeSpinner] of this.activeSpinners) {
+      if (activeSpinner.lastAngle === null) {
+        activeSpinner.lastAngle = Math.atan2(y - 192, x - 256);
+        this.judgedSinceFrame = true;
+        continue;
+      }
+      
+      const angle = Math.atan2(y - 192, x - 256);
+      let deltaAngle = angle - activeSpinner.lastAngle;
+      
+      // Normalize angle difference
+      if (deltaAngle > Math.PI) deltaAngle -= 6.283185307179586; // 2 * Math.PI
+      if (deltaAngle < -Math.PI) deltaAngle += 6.283185307179586;
+      
+      // Accumulate rotation
+      activeSpinner.rotation += deltaAngle > 0 ? deltaAngle : -deltaAngle;
+      activeSpinner.lastAngle = angle;
+      
+      // Count spins
+      const newSpins = activeSpinner.rotation * 0.15915494309189535; // 1 / (2 * Math.PI)
+      if (newSpins > activeSpinner.spinsCompleted) {
+        const spinsGained = (newSpins | 0) - (activeSpinner.spinsCompleted | 0);
+        activeSpinner.spinsCompleted = newSpins;
+        if (spinsGained > 0) {
+          this.addScore(100 * spinsGained, false);
+        }
+      }
+    }
+  }
+
   private updateActiveSpinners(): void {
     for (const [index, activeSpinner] of this.activeSpinners) {
       const spinner = activeSpinner.spinner;
@@ -380,16 +667,61 @@ export class GameEngine {
     }
   }
 
-  handleClick(x: number, y: number): void {
+  // Mouse button or touch press at a position (M1 unless another key is given)
+  handleClick(x: number, y: number, key: number = REPLAY_KEYS.M1): void {
+    if (!this.isRunning || !this.beatmap) return;
+
+    this.lastMousePos = { x: quantiseFramePosition(x), y: quantiseFramePosition(y) };
+    this.handleKeyDown(key);
+  }
+
+  // Tap key press - hits at the current cursor position
+  handleKeyDown(key: number): void {
     if (!this.isRunning || !this.beatmap) return;
+    if (this.heldKeys.has(key)) return;
+
+    this.heldKeys.add(key);
+    this.updateKeysPressed();
+    this.recordFrame();
+    this.tryHit(this.lastMousePos.x, this.lastMousePos.y);
+  }
+
+  handleKeyUp(key: number): void {
+    if (!this.heldKeys.delete(key)) return;
 
-    // Record replay frame
+    this.updateKeysPressed();
+    if (this.isRunning) {
+      this.recordFrame();
+    }
+
+    // Sliders need at least one key held to keep tracking
+    if (this.keysPressed === 0) {
+      for (const [, activeSlider] of this.activeSliders) {
+        activeSlider.isHeld = false;
+      }
+    }
+  }
+
+  private updateKeysPressed(): void {
+    let keys = 0;
+    for (const key of this.heldKeys) {
+      keys |= key;
+    }
+    this.keysPressed = keys;
+  }
+
+  private recordFrame(): void {
+    this.judgedSinceFrame = false;
     this.replayFrames.push({
       time: this.currentTime,
-      x,
-      y,
-      keys: 1,
+      x: this.lastMousePos.x,
+      y: this.lastMousePos.y,
+      keys: this.keysPressed,
     });
+  }
+
+  private tryHit(x: number, y: number): void {
+    if (!this.beatmap) return;
 
     // Check for hittable objects
     for (let i = 0; i < this.beatmap.hitObjects.length; i++) {
@@ -402,23 +734,15 @@ export class GameEngine {
         if (obj.type === 'circle') {
           if (this.isPointInCircle(x, y, obj.x, obj.y)) {
             const result = this.getHitResult(timeDiff);
-            this.processHit(i, result, obj);
+            this.processHit(i, result, obj, true, this.recordHitError(obj));
             return;
           }
         } else if (obj.type === 'slider') {
           const slider = obj as Slider;
+          const activeSlider = this.activeSliders.get(i);
+          if (activeSlider && activeSlider.headResult !== null) continue;
           if (this.isPointInCircle(x, y, slider.x, slider.y)) {
-            const result = this.getHitResult(timeDiff);
-            if (result !== 'miss') {
-              this.activeSliders.set(i, {
-                slider,
-                progress: 0,
-                ticksHit: 1,
-                isHeld: true,
-                startHit: true,
-              });
-              this.addScore(SCORE_VALUES[result] / 3, true);
-            }
+            this.hitSliderHead(activeSlider ?? this.startSlider(i, slider), this.getHitResult(timeDiff), this.recordHitError(slider));
             return;
           }
         } else if (obj.type === 'spinner') {
@@ -450,59 +774,25 @@ export class GameEngine {
   handleMouseMove(x: number, y: number): void {
     if (!this.isRunning) return;
 
-    this.lastMousePos.x = x;
-    this.lastMousePos.y = y;
+    this.lastMousePos.x = quantiseFramePosition(x);
+    this.lastMousePos.y = quantiseFramePosition(y);
 
     // Update slider tracking - use cached values
-    const cr = this.circleRadius * 2.5;
+    const cr = this.circleRadius * FOLLOW_RADIUS;
     const crSq = cr * cr;
     
     for (const [, activeSlider] of this.activeSliders) {
-      const sliderPos = this.getSliderPosition(activeSlider.slider, activeSlider.progress);
-      const dx = x - sliderPos.x;
-      const dy = y - sliderPos.y;
+      const sliderPos = getSliderPosition(activeSlider.slider, activeSlider.progress);
+      const dx = this.lastMousePos.x - sliderPos.x;
+      const dy = this.lastMousePos.y - sliderPos.y;
       const inFollowRadius = dx * dx + dy * dy <= crSq;
 
-      activeSlider.isHeld = inFollowRadius;
-      if (inFollowRadius) {
-        activeSlider.ticksHit++;
-      }
-    }
-
-    // Update spinner rotation - simplified calculation
-    for (const [, activeSpinner] of this.activeSpinners) {
-      if (activeSpinner.lastAngle === null) {
-        activeSpinner.lastAngle = Math.atan2(y - 192, x - 256);
-        continue;
-      }
-      
-      const angle = Math.atan2(y - 192, x - 256);
-      let deltaAngle = angle - activeSpinner.lastAngle;
-      
-      // Normalize angle difference
-      if (deltaAngle > Math.PI) deltaAngle -= 6.283185307179586; // 2 * Math.PI
-      if (deltaAngle < -Math.PI) deltaAngle += 6.283185307179586;
-      
-      // Accumulate rotation
-      activeSpinner.rotation += deltaAngle > 0 ? deltaAngle : -deltaAngle;
-      activeSpinner.lastAngle = angle;
-      
-      // Count spins
-      const newSpins = activeSpinner.rotation * 0.15915494309189535; // 1 / (2 * Math.PI)
-      if (newSpins > activeSpinner.spinsCompleted) {
-        const spinsGained = (newSpins | 0) - (activeSpinner.spinsCompleted | 0);
-        activeSpinner.spinsCompleted = newSpins;
-        if (spinsGained > 0) {
-          this.addScore(100 * spinsGained, false);
-        }
-      }
+      activeSlider.isHeld = inFollowRadius && this.keysPressed !== 0;
     }
   }
 
-  handleMouseUp(): void {
-    // Don't immediately release sliders - let them continue tracking
-    // Only set isHeld to false if the slider ball is too far from cursor
-    // This allows for brief releases during slider following
+  handleMouseUp(key: number = REPLAY_KEYS.M1): void {
+    this.handleKeyUp(key);
   }
 
   private isPointInCircle(px: number, py: number, cx: number, cy: number, radius?: number): boolean {
@@ -519,8 +809,15 @@ export class GameEngine {
     return 'miss';
   }
 
-  private processHit(objectIndex: number, result: HitResult, hitObject: HitObject): void {
+  private processHit(
+    objectIndex: number,
+    result: HitResult,
+    hitObject: HitObject,
+    affectsCombo = true,
+    hitError?: number
+  ): void {
     this.processedObjects.add(objectIndex);
+    this.judgedSinceFrame = true;
 
     const points = SCORE_VALUES[result];
     const hpChange = HP_CHANGES[result];
@@ -542,18 +839,28 @@ export class GameEngine {
     }
 
     // Update combo
-    if (result === 'miss') {
-      this.gameState.combo = 0;
-    } else {
-      this.gameState.combo++;
-      this.gameState.maxCombo = Math.max(this.gameState.maxCombo, this.gameState.combo);
+    if (affectsCombo) {
+      if (result === 'miss') {
+        this.breakCombo();
+      } else {
+        this.addCombo();
+      }
     }
 
     // Update score with combo multiplier
-    this.addScore(points, result !== 'miss');
+    if (this.scoringMode === 'standardised') {
+      this.addStandardisedScore(points);
+    } else {
+      this.addScore(points, result !== 'miss');
+    }
+
+    // Sliders sound their parts as they are followed
+    if (result !== 'miss' && hitObject.type !== 'slider') {
+      this.playObjectSound(hitObject);
+    }
 
     // Update HP
-    this.gameState.hp = Math.max(0, Math.min(100, this.gameState.hp + hpChange));
+    this.changeHp(hpChange);
 
     // Update accuracy
     this.updateAccuracy();
@@ -566,6 +873,7 @@ export class GameEngine {
       y: hitObject.y,
       hitObject,
       points,
+      hitError,
     };
     this.judgements.push(judgement);
 
@@ -574,8 +882,146 @@ export class GameEngine {
     }
   }
 
+  private addCombo(): void {
+    this.judgedSinceFrame = true;
+    this.gameState.combo++;
+    this.gameState.maxCombo = Math.max(this.gameState.maxCombo, this.gameState.combo);
+  }
+
+  private breakCombo(): void {
+    this.judgedSinceFrame = true;
+    this.gameState.combo = 0;
+  }
+
+  private changeHp(amount: number): void {
+    this.judgedSinceFrame = true;
+    this.gameState.hp = Math.max(0, Math.min(100, this.gameState.hp + amount));
+  }
+
+  private hitSliderHead(activeSlider: ActiveSlider, result: HitResult, hitError: number): void {
+    activeSlider.headResult = result;
+    activeSlider.headError = hitError;
+    if (result === 'miss') {
+      this.breakCombo();
+      return;
+    }
+    activeSlider.partsHit++;
+    activeSlider.isHeld = true;
+    this.addCombo();
+    this.addScore(SLIDER_PART_SCORES.head, false);
+    this.changeHp(SLIDER_PART_HP.hit);
+    this.playSliderEdgeSound(activeSlider.slider, 0, activeSlider.slider.time);
+  }
+
+  // Ticks and repeats break combo when missed; a missed tail only costs its share
+  private judgeSliderEvent(activeSlider: ActiveSlider, event: SliderEvent): void {
+    const slider = activeSlider.slider;
+    this.judgedSinceFrame = true;
+    if (!this.isTracking(slider, event.time)) {
+      if (event.type !== 'tail') {
+        this.breakCombo();
+        this.changeHp(SLIDER_PART_HP.miss);
+      }
+      return;
+    }
+
+    activeSlider.partsHit++;
+    this.addCombo();
+    this.addScore(SLIDER_PART_SCORES[event.type], false);
+    this.changeHp(SLIDER_PART_HP.hit);
+    if (event.type === 'tick') {
+      this.playSliderTickSound(slider, event.time);
+    } else {
+      // The tail sounds at the end, not when it is checked
+      const edgeTime = event.type === 'tail' ? slider.time + slider.duration : event.time;
+      this.playSliderEdgeSound(slider, event.edgeIndex, edgeTime);
+    }
+  }
+
+  // Whether a key is held with the cursor inside the follow circle around
+  // where the ball is at `time`
+  private isTracking(slider: Slider, time: number): boolean {
+    if (this.mods.has('auto')) return true;
+    if (this.keysPressed === 0) return false;
+    const ball = getSliderPosition(slider, (time - slider.time) / slider.duration);
+    return this.isPointInCircle(this.lastMousePos.x, this.lastMousePos.y, ball.x, ball.y, this.circleRadius * FOLLOW_RADIUS);
+  }
+
+  // Tick, repeat and tail times of a slider, in order
+  private getSliderEvents(slider: Slider): SliderEvent[] {
+    if (!this.beatmap) return [];
+
+    const events: SliderEvent[] = [];
+    const slides = Math.max(1, slider.slides);
+    const spanDuration = slider.duration / slides;
+
+    for (let span = 0; span < slides; span++) {
+      const spanStart = slider.time + span * spanDuration;
+      const reversed = span % 2 === 1;
+      const ticks: number[] = [];
+
+      for (const d of getTickDistances(slider.length, slider.tickDistance)) {
+        const fraction = d / slider.length;
+        ticks.push(spanStart + (reversed ? 1 - fraction : fraction) * spanDuration);
+      }
+      if (reversed) ticks.reverse();
+      for (const time of ticks) {
+        events.push({ time, type: 'tick', edgeIndex: span });
+      }
+
+      if (span < slides - 1) {
+        events.push({ time: spanStart + spanDuration, type: 'repeat', edgeIndex: span + 1 });
+      }
+    }
+
+    // Checked a little early, but never before the middle of the last span
+    const end = slider.time + slider.duration;
+    const tailTime = Math.max(end - spanDuration / 2, end - SLIDER_TAIL_LENIENCY);
+    events.push({ time: tailTime, type: 'tail', edgeIndex: slides });
+
+    return events.sort((a, b) => a.time - b.time);
+  }
+
+  private playObjectSound(hitObject: HitCircle | Spinner): void {
+    const time = hitObject.type === 'spinner' ? hitObject.endTime : hitObject.time;
+    this.playHitSound(time, hitObject.hitSound ?? 0, hitObject.hitSample, hitObject.hitSample?.volume);
+  }
+
+  private playSliderEdgeSound(slider: Slider, edgeIndex: number, time: number): void {
+    const hitSound = slider.edgeSounds?.[edgeIndex] ?? slider.hitSound ?? 0;
+    this.playHitSound(time, hitSound, this.getSliderSampleSets(slider, edgeIndex), slider.hitSample?.volume);
+  }
+
+  private playSliderTickSound(slider: Slider, time: number): void {
+    if (!this.beatmap) return;
+    const sample = resolveTickSample(this.beatmap.timingPoints, time, slider.hitSample, slider.hitSample?.volume);
+    this.audio?.playSamples([sample]);
+  }
+
+  // Edge sets override the slider's own sample sets where they are not 0
+  private getSliderSampleSets(slider: Slider, edgeIndex: number): SampleSetOverride {
+    const edgeSet = slider.edgeSets?.[edgeIndex];
+    return {
+      normalSet: edgeSet?.normalSet || slider.hitSample?.normalSet || 0,
+      additionSet: edgeSet?.additionSet || slider.hitSample?.additionSet || 0,
+    };
+  }
+
+  private playHitSound(time: number, hitSound: number, sets?: SampleSetOverride, sampleVolume?: number): void {
+    if (!this.beatmap) return;
+    this.audio?.playSamples(resolveHitSamples(this.beatmap.timingPoints, time, hitSound, sets, sampleVolume));
+  }
+
+  // Classic scoring. Standardised scores only count object judgements, so
+  // slider parts and spinner bonus add nothing there.
   private addScore(basePoints: number, applyCombo: boolean): void {
+    this.judgedSinceFrame = true;
+    if (this.scoringMode === 'standardised') return;
     const comboMultiplier = applyCombo ? Math.max(1, this.gameState.combo) : 1;
+    this.gameState.score += Math.floor(basePoints * comboMultiplier * this.getModMultiplier());
+  }
+
+  private getModMultiplier(): number {
     let modMultiplier = 1;
     
     if (this.mods.has('hr')) modMultiplier *= 1.06;
@@ -585,7 +1031,48 @@ export class GameEngine {
     if (this.mods.has('hd')) modMultiplier *= 1.06;
     if (this.mods.has('fl')) modMultiplier *= 1.12;
     
-    this.gameState.score += Math.floor(basePoints * comboMultiplier * modMultiplier);
+    return modMultiplier;
+  }
+
+  // The score is rebuilt from both portions on every judgement, so it only
+  // reaches the maximum once the last object is hit perfectly at full combo
+  private addStandardisedScore(basePoints: number): void {
+    this.comboPortion += basePoints * Math.pow(Math.max(1, this.gameState.combo), STANDARDISED_COMBO_EXPONENT);
+    this.accuracyPortion += basePoints;
+
+    const comboRatio = this.maxComboPortion > 0 ? this.comboPortion / this.maxComboPortion : 0;
+    const accuracyRatio = this.maxAccuracyPortion > 0 ? this.accuracyPortion / this.maxAccuracyPortion : 0;
+    const total = STANDARDISED_COMBO_SHARE * comboRatio + (1 - STANDARDISED_COMBO_SHARE) * accuracyRatio;
+    this.gameState.score = Math.round(STANDARDISED_MAX_SCORE * total * this.getModMultiplier());
+  }
+
+  // Both portions of a perfect play, walking the objects in order: every
+  // circle, slider part and spinner adds one to the combo
+  private calculateStandardisedMaximum(): void {
+    this.maxComboPortion = 0;
+    this.maxAccuracyPortion = 0;
+    if (!this.beatmap) return;
+
+    let combo = 0;
+    for (const hitObject of this.beatmap.hitObjects) {
+      combo += hitObject.type === 'slider' ? 1 + this.getSliderEvents(hitObject).length : 1;
+      this.maxComboPortion += SCORE_VALUES.perfect * Math.pow(combo, STANDARDISED_COMBO_EXPONENT);
+      this.maxAccuracyPortion += SCORE_VALUES.perfect;
+    }
+  }
+
+  // Signed offset of a press on a circle or slider head. The unstable rate
+  // and mean are kept up to date so the HUD can show them live.
+  private recordHitError(hitObject: HitObject): number {
+    const error = this.currentTime - hitObject.time;
+    this.hitErrors.push({ time: this.currentTime, error });
+
+    const count = this.hitErrors.length;
+    const mean = this.hitErrors.reduce((sum, hit) => sum + hit.error, 0) / count;
+    const variance = this.hitErrors.reduce((sum, hit) => sum + Math.pow(hit.error - mean, 2), 0) / count;
+    this.gameState.meanHitError = mean;
+    this.gameState.unstableRate = Math.sqrt(variance) * 10;
+    return error;
   }
 
   private updateAccuracy(): void {
@@ -604,35 +1091,13 @@ export class GameEngine {
     this.gameState.accuracy = (weighted / (total * 300)) * 100;
   }
 
-  private getSliderPosition(slider: Slider, progress: number): { x: number; y: number } {
-    // Handle repeats
-    const slideNumber = Math.floor(progress * slider.slides);
-    let t = (progress * slider.slides) % 1;
-    if (slideNumber % 2 === 1) t = 1 - t;
-
-    if (slider.curvePoints.length === 0) {
-      return { x: slider.x, y: slider.y };
-    }
-
-    // Simple linear interpolation for now
-    const allPoints = [{ x: slider.x, y: slider.y }, ...slider.curvePoints];
-    const totalPoints = allPoints.length;
-    const index = Math.min(Math.floor(t * (totalPoints - 1)), totalPoints - 2);
-    const localT = (t * (totalPoints - 1)) % 1;
-
-    return {
-      x: allPoints[index].x + (allPoints[index + 1].x - allPoints[index].x) * localT,
-      y: allPoints[index].y + (allPoints[index + 1].y - allPoints[index].y) * localT,
-    };
-  }
-
   private endGame(): void {
     this.isRunning = false;
-    audioEngine.stop();
+    this.audio?.stop();
 
     if (this.onGameEnd && this.beatmap) {
       const replay: Replay = {
-        beatmapHash: `${this.beatmap.title}-${this.beatmap.version}`,
+        beatmapHash: this.beatmap.md5,
         playerName: 'Player',
         mods: Array.from(this.mods),
         score: this.gameState.score,
@@ -644,6 +1109,8 @@ export class GameEngine {
         missCount: this.gameState.missCount,
         timestamp: Date.now(),
         frames: this.replayFrames,
+        lifeBar: this.lifeBar,
+        scoringMode: this.scoringMode,
       };
       this.onGameEnd(this.gameState, replay);
     }
@@ -658,6 +1125,10 @@ export class GameEngine {
     return { ...this.gameState };
   }
 
+  getCursorPosition(): { x: number; y: number } {
+    return { ...this.lastMousePos };
+  }
+
   getBeatmap(): Beatmap | null {
     return this.beatmap;
   }
@@ -670,6 +1141,14 @@ export class GameEngine {
     return this.approachTime;
   }
 
+  getHitWindows(): { perfect: number; great: number; good: number } {
+    return { ...this.hitWindows };
+  }
+
+  getHitErrors(): HitError[] {
+    return this.hitErrors;
+  }
+
   getProcessedObjects(): Set<number> {
     return this.processedObjects;
   }
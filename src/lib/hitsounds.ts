@@ -0,0 +1,190 @@
+// Hitsound resolution (which samples to play, at what volume) and the
+// synthesized normal/soft/drum sample banks played by the AudioEngine.
+
+import { TimingPoint, SampleSetName, HIT_SOUNDS } from '@/types/game';
+
+export type SampleName = 'hitnormal' | 'hitwhistle' | 'hitfinish' | 'hitclap' | 'slidertick';
+
+export interface ResolvedSample {
+  set: SampleSetName;
+  name: SampleName;
+  volume: number; // 0-1, before the effect volume setting
+}
+
+// Sample set overrides carried by a hit object or slider edge (0 = inherit)
+export interface SampleSetOverride {
+  normalSet: number;
+  additionSet: number;
+}
+
+const toSetName = (index: number): SampleSetName | null => {
+  switch (index) {
+    case 1: return 'normal';
+    case 2: return 'soft';
+    case 3: return 'drum';
+    default: return null;
+  }
+};
+
+/** Sample set and volume come from the latest timing point, inherited or not */
+export function getSamplePointAt(timingPoints: TimingPoint[], time: number): TimingPoint | null {
+  let result: TimingPoint | null = timingPoints[0] ?? null;
+  for (const tp of timingPoints) {
+    if (tp.time <= time) {
+      result = tp;
+    } else {
+      break;
+    }
+  }
+  return result;
+}
+
+function resolveSets(timingPoints: TimingPoint[], time: number, sets?: SampleSetOverride) {
+  const point = getSamplePointAt(timingPoints, time);
+  const normalSet = toSetName(sets?.normalSet ?? 0) ?? toSetName(point?.sampleSet ?? 0) ?? 'normal';
+  const additionSet = toSetName(sets?.additionSet ?? 0) ?? normalSet;
+  return { point, normalSet, additionSet };
+}
+
+const resolveVolume = (point: TimingPoint | null, sampleVolume: number): number =>
+  (sampleVolume > 0 ? sampleVolume : point?.volume ?? 100) / 100;
+
+/** Samples for a hit: the normal sample always, plus whistle/finish/clap additions */
+export function resolveHitSamples(
+  timingPoints: TimingPoint[],
+  time: number,
+  hitSound: number,
+  sets?: SampleSetOverride,
+  sampleVolume: number = 0
+): ResolvedSample[] {
+  const { point, normalSet, additionSet } = resolveSets(timingPoints, time, sets);
+  const volume = resolveVolume(point, sampleVolume);
+
+  const samples: ResolvedSample[] = [{ set: normalSet, name: 'hitnormal', volume }];
+  if (hitSound & HIT_SOUNDS.whistle) samples.push({ set: additionSet, name: 'hitwhistle', volume });
+  if (hitSound & HIT_SOUNDS.finish) samples.push({ set: additionSet, name: 'hitfinish', volume });
+  if (hitSound & HIT_SOUNDS.clap) samples.push({ set: additionSet, name: 'hitclap', volume });
+  return samples;
+}
+
+/** Slider ticks use the slider's normal sample set */
+export function resolveTickSample(
+  timingPoints: TimingPoint[],
+  time: number,
+  sets?: SampleSetOverride,
+  sampleVolume: number = 0
+): ResolvedSample {
+  const { point, normalSet } = resolveSets(timingPoints, time, sets);
+  return { set: normalSet, name: 'slidertick', volume: resolveVolume(point, sampleVolume) };
+}
+
+// --- Synthesis ---
+
+interface Voice {
+  duration: number; // seconds
+  sample: (t: number) => number;
+}
+
+const TAU = Math.PI * 2;
+const noise = () => Math.random() * 2 - 1;
+const envelope = (t: number, attack: number, decay: number) =>
+  t < attack ? t / attack : Math.exp(-(t - attack) / decay);
+const tone = (t: number, frequency: number) => Math.sin(TAU * frequency * t);
+// Sine with an exponential pitch drop from `from` to `to` Hz (kick drums, toms)
+const sweep = (t: number, from: number, to: number, time: number) =>
+  Math.sin(TAU * (to * t + (from - to) * time * (1 - Math.exp(-t / time))));
+// A few quick noise bursts, the way a hand clap sounds
+const clapBursts = (t: number, spacing: number, decay: number) => {
+  let value = 0;
+  for (let k = 0; k < 3; k++) {
+    const local = t - k * spacing;
+    if (local >= 0) value += envelope(local, 0.001, decay);
+  }
+  return noise() * value / 3;
+};
+
+const VOICES: Record<SampleSetName, Record<SampleName, Voice>> = {
+  normal: {
+    hitnormal: {
+      duration: 0.12,
+      sample: t => 0.5 * noise() * envelope(t, 0.001, 0.008) + 0.5 * tone(t, 1400) * envelope(t, 0.001, 0.03),
+    },
+    hitwhistle: {
+      duration: 0.3,
+      sample: t => 0.4 * tone(t, 2200 + 40 * Math.sin(TAU * 12 * t)) * envelope(t, 0.01, 0.08),
+    },
+    hitfinish: {
+      duration: 0.8,
+      sample: t => 0.4 * noise() * envelope(t, 0.001, 0.25) + 0.2 * tone(t, 3100) * envelope(t, 0.001, 0.15),
+    },
+    hitclap: {
+      duration: 0.2,
+      sample: t => 0.8 * clapBursts(t, 0.011, 0.03),
+    },
+    slidertick: {
+      duration: 0.06,
+      sample: t => 0.35 * tone(t, 2600) * envelope(t, 0.001, 0.012),
+    },
+  },
+  soft: {
+    hitnormal: {
+      duration: 0.15,
+      sample: t => 0.55 * tone(t, 700) * envelope(t, 0.003, 0.04) + 0.1 * noise() * envelope(t, 0.001, 0.005),
+    },
+    hitwhistle: {
+      duration: 0.35,
+      sample: t => 0.3 * tone(t, 1600 + 25 * Math.sin(TAU * 8 * t)) * envelope(t, 0.02, 0.1),
+    },
+    hitfinish: {
+      duration: 1,
+      sample: t => 0.3 * noise() * envelope(t, 0.005, 0.35),
+    },
+    hitclap: {
+      duration: 0.2,
+      sample: t => 0.5 * clapBursts(t, 0.013, 0.04),
+    },
+    slidertick: {
+      duration: 0.06,
+      sample: t => 0.25 * tone(t, 1800) * envelope(t, 0.002, 0.015),
+    },
+  },
+  drum: {
+    hitnormal: {
+      duration: 0.25,
+      sample: t => 0.8 * sweep(t, 180, 50, 0.04) * envelope(t, 0.001, 0.07) + 0.2 * noise() * envelope(t, 0.001, 0.006),
+    },
+    hitwhistle: {
+      duration: 0.3,
+      sample: t => 0.5 * sweep(t, 420, 240, 0.05) * envelope(t, 0.002, 0.08),
+    },
+    hitfinish: {
+      duration: 0.9,
+      sample: t => 0.6 * sweep(t, 130, 55, 0.1) * envelope(t, 0.001, 0.3) + 0.25 * noise() * envelope(t, 0.001, 0.2),
+    },
+    hitclap: {
+      duration: 0.25,
+      sample: t => 0.5 * noise() * envelope(t, 0.001, 0.05) + 0.35 * tone(t, 200) * envelope(t, 0.001, 0.04),
+    },
+    slidertick: {
+      duration: 0.06,
+      sample: t => 0.4 * tone(t, 1200) * envelope(t, 0.001, 0.015),
+    },
+  },
+};
+
+/** Render one sample of a bank into an AudioBuffer */
+export function synthesizeSample(context: BaseAudioContext, set: SampleSetName, name: SampleName): AudioBuffer {
+  const voice = VOICES[set][name];
+  const length = Math.ceil(voice.duration * context.sampleRate);
+  const buffer = context.createBuffer(1, length, context.sampleRate);
+  const data = buffer.getChannelData(0);
+
+  for (let i = 0; i < length; i++) {
+    const t = i / context.sampleRate;
+    // Short fade at the end avoids a click when the buffer stops
+    const tail = Math.min(1, (length - i) / (context.sampleRate * 0.005));
+    data[i] = Math.max(-1, Math.min(1, voice.sample(t) * tail));
+  }
+
+  return buffer;
+}
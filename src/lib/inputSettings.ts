@@ -0,0 +1,16 @@
+import { InputSettings } from '@/types/game';
+
+export const DEFAULT_INPUT_SETTINGS: InputSettings = {
+  key1: 'KeyZ',
+  key2: 'KeyX',
+  mouseButtons: true,
+};
+
+// Human-readable label for a KeyboardEvent.code ("KeyZ" -> "Z", "Digit1" -> "1")
+export const formatKeyCode = (code: string): string => {
+  if (code.startsWith('Key')) return code.slice(3);
+  if (code.startsWith('Digit')) return code.slice(5);
+  if (code.startsWith('Numpad')) return `Num ${code.slice(6)}`;
+  if (code === 'Space') return 'Space';
+  return code.replace(/(Left|Right)$/, ' $1');
+};
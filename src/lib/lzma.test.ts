@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import fc from 'fast-check';
+import { lzmaCompress, lzmaDecompress } from './lzma';
+
+const encode = (text: string) => new TextEncoder().encode(text);
+const decode = (bytes: Uint8Array) => new TextDecoder().decode(bytes);
+
+// Frame text as osu! writes it, compressed by xz's LZMA1 encoder (preset 6,
+// 64KiB dictionary) with an unknown size and an end marker
+const KNOWN_TEXT = '0|256|-500|0,-1|256|-500|0,16|100|100|5,16|101|100|5,16|102|100|0,-12345|0|0|7263789,';
+const KNOWN_STREAM = 'XQAAAQD//////////wAYHwJDUQO0AFVX2FOrBI1oAoqPzM5XiadnvLD14jUJ6NbA9r1FN0tsd/6Tk7aiImf6IuD//q8IAA==';
+
+describe('lzmaDecompress', () => {
+  it('decodes a stream from another encoder', () => {
+    const stream = Uint8Array.from(atob(KNOWN_STREAM), char => char.charCodeAt(0));
+    expect(decode(lzmaDecompress(stream))).toBe(KNOWN_TEXT);
+  });
+
+  it('rejects streams too short for a header', () => {
+    expect(() => lzmaDecompress(new Uint8Array(5))).toThrow();
+  });
+});
+
+describe('lzmaCompress', () => {
+  it('writes a header with the default properties and the size', () => {
+    const stream = lzmaCompress(encode(KNOWN_TEXT));
+    expect(stream[0]).toBe(0x5D);
+    expect(new DataView(stream.buffer, stream.byteOffset).getUint32(5, true)).toBe(KNOWN_TEXT.length);
+  });
+
+  it('compresses repetitive frame text', () => {
+    const text = Array.from({ length: 500 }, (_, i) => `16|${256 + (i % 7)}|192|${i % 2 ? 5 : 0}`).join(',');
+    const stream = lzmaCompress(encode(text));
+    expect(stream.length).toBeLessThan(text.length / 4);
+    expect(decode(lzmaDecompress(stream))).toBe(text);
+  });
+
+  it('round-trips any bytes', () => {
+    fc.assert(fc.property(fc.uint8Array({ maxLength: 2000 }), bytes => {
+      expect(lzmaDecompress(lzmaCompress(bytes))).toEqual(bytes);
+    }));
+  });
+
+  it('round-trips text with long repeats and short rematches', () => {
+    fc.assert(fc.property(fc.array(fc.constantFrom('a', 'ab', 'abc', '|256|', '-500', ','), { maxLength: 400 }), parts => {
+      const bytes = encode(parts.join(''));
+      expect(lzmaDecompress(lzmaCompress(bytes))).toEqual(bytes);
+    }));
+  });
+});
@@ -0,0 +1,489 @@
+// LZMA ("LZMA-alone" .lzma streams) as used for replay frames in .osr files.
+// The decoder follows the reference LzmaSpec; the encoder is a small greedy
+// one (hash-chain match finder, plain matches only) whose output any LZMA
+// decoder reads.
+
+const NUM_BIT_MODEL_TOTAL_BITS = 11;
+const BIT_MODEL_TOTAL = 1 << NUM_BIT_MODEL_TOTAL_BITS;
+const NUM_MOVE_BITS = 5;
+const PROB_INIT = BIT_MODEL_TOTAL >> 1;
+const TOP_VALUE = 1 << 24;
+
+const NUM_STATES = 12;
+const NUM_POS_BITS_MAX = 4;
+const NUM_LEN_TO_POS_STATES = 4;
+const NUM_ALIGN_BITS = 4;
+const START_POS_MODEL_INDEX = 4;
+const END_POS_MODEL_INDEX = 14;
+const NUM_FULL_DISTANCES = 1 << (END_POS_MODEL_INDEX >> 1);
+const MATCH_MIN_LEN = 2;
+const MATCH_MAX_LEN = 273;
+
+// Encoder parameters: the usual lc=3, lp=0, pb=2
+const LC = 3;
+const LP = 0;
+const PB = 2;
+const DICT_SIZE = 1 << 20;
+
+const createProbs = (count: number): Uint16Array => new Uint16Array(count).fill(PROB_INIT);
+
+const stateAfterLiteral = (state: number) => state < 4 ? 0 : state < 10 ? state - 3 : state - 6;
+const stateAfterMatch = (state: number) => state < 7 ? 7 : 10;
+const stateAfterRep = (state: number) => state < 7 ? 8 : 11;
+const stateAfterShortRep = (state: number) => state < 7 ? 9 : 11;
+
+// Probability models shared by encoder and decoder
+class LzmaModel {
+  literal: Uint16Array;
+  isMatch = createProbs(NUM_STATES << NUM_POS_BITS_MAX);
+  isRep = createProbs(NUM_STATES);
+  isRepG0 = createProbs(NUM_STATES);
+  isRepG1 = createProbs(NUM_STATES);
+  isRepG2 = createProbs(NUM_STATES);
+  isRep0Long = createProbs(NUM_STATES << NUM_POS_BITS_MAX);
+  posSlot = Array.from({ length: NUM_LEN_TO_POS_STATES }, () => createProbs(1 << 6));
+  posSpecial = createProbs(1 + NUM_FULL_DISTANCES - END_POS_MODEL_INDEX);
+  align = createProbs(1 << NUM_ALIGN_BITS);
+  len = new LenModel();
+  repLen = new LenModel();
+
+  constructor(public lc: number, public lp: number, public pb: number) {
+    this.literal = createProbs(0x300 << (lc + lp));
+  }
+
+  literalOffset(pos: number, prevByte: number): number {
+    return 0x300 * (((pos & ((1 << this.lp) - 1)) << this.lc) + (prevByte >> (8 - this.lc)));
+  }
+}
+
+class LenModel {
+  choice = createProbs(2);
+  low = Array.from({ length: 1 << NUM_POS_BITS_MAX }, () => createProbs(1 << 3));
+  mid = Array.from({ length: 1 << NUM_POS_BITS_MAX }, () => createProbs(1 << 3));
+  high = createProbs(1 << 8);
+}
+
+// --- Decoding ---
+
+class RangeDecoder {
+  private range = 0xFFFFFFFF;
+  private code = 0;
+  private pos: number;
+
+  constructor(private data: Uint8Array, offset: number) {
+    this.pos = offset;
+    if (this.nextByte() !== 0) throw new Error('Corrupt LZMA stream');
+    for (let i = 0; i < 4; i++) {
+      this.code = ((this.code << 8) | this.nextByte()) >>> 0;
+    }
+  }
+
+  private nextByte(): number {
+    if (this.pos >= this.data.length) throw new Error('Unexpected end of LZMA stream');
+    return this.data[this.pos++];
+  }
+
+  private normalize(): void {
+    if (this.range < TOP_VALUE) {
+      this.range = (this.range << 8) >>> 0;
+      this.code = ((this.code << 8) | this.nextByte()) >>> 0;
+    }
+  }
+
+  decodeBit(probs: Uint16Array, index: number): number {
+    const prob = probs[index];
+    const bound = (this.range >>> NUM_BIT_MODEL_TOTAL_BITS) * prob;
+    let bit: number;
+    if (this.code < bound) {
+      probs[index] = prob + ((BIT_MODEL_TOTAL - prob) >> NUM_MOVE_BITS);
+      this.range = bound;
+      bit = 0;
+    } else {
+      probs[index] = prob - (prob >> NUM_MOVE_BITS);
+      this.code -= bound;
+      this.range -= bound;
+      bit = 1;
+    }
+    this.normalize();
+    return bit;
+  }
+
+  decodeDirectBits(numBits: number): number {
+    let result = 0;
+    for (let i = 0; i < numBits; i++) {
+      this.range >>>= 1;
+      let bit = 0;
+      if (this.code >= this.range) {
+        this.code -= this.range;
+        bit = 1;
+      }
+      result = ((result << 1) | bit) >>> 0;
+      this.normalize();
+    }
+    return result;
+  }
+
+  decodeTree(probs: Uint16Array, numBits: number, offset = 0): number {
+    let m = 1;
+    for (let i = 0; i < numBits; i++) {
+      m = (m << 1) | this.decodeBit(probs, offset + m);
+    }
+    return m - (1 << numBits);
+  }
+
+  decodeReverseTree(probs: Uint16Array, numBits: number, offset = 0): number {
+    let m = 1;
+    let result = 0;
+    for (let i = 0; i < numBits; i++) {
+      const bit = this.decodeBit(probs, offset + m);
+      m = (m << 1) | bit;
+      result |= bit << i;
+    }
+    return result;
+  }
+
+  decodeLen(model: LenModel, posState: number): number {
+    if (this.decodeBit(model.choice, 0) === 0) return this.decodeTree(model.low[posState], 3);
+    if (this.decodeBit(model.choice, 1) === 0) return 8 + this.decodeTree(model.mid[posState], 3);
+    return 16 + this.decodeTree(model.high, 8);
+  }
+}
+
+/** Decode an LZMA-alone stream: 5 property bytes, 8-byte size, then data */
+export function lzmaDecompress(input: Uint8Array): Uint8Array {
+  if (input.length < 13) throw new Error('LZMA stream too short');
+
+  let props = input[0];
+  if (props >= 9 * 5 * 5) throw new Error('Invalid LZMA properties');
+  const lc = props % 9;
+  props = Math.floor(props / 9);
+  const lp = props % 5;
+  const pb = Math.floor(props / 5);
+
+  // Size is -1 (all 0xFF) when the stream ends with an end marker instead
+  const view = new DataView(input.buffer, input.byteOffset, input.byteLength);
+  const sizeLow = view.getUint32(5, true);
+  const sizeHigh = view.getUint32(9, true);
+  const sizeKnown = !(sizeLow === 0xFFFFFFFF && sizeHigh === 0xFFFFFFFF);
+  const unpackSize = sizeHigh * 0x100000000 + sizeLow;
+
+  const model = new LzmaModel(lc, lp, pb);
+  const rc = new RangeDecoder(input, 13);
+  const pbMask = (1 << pb) - 1;
+
+  let out = new Uint8Array(sizeKnown ? unpackSize : Math.max(1024, input.length * 4));
+  let outPos = 0;
+  const ensure = (extra: number) => {
+    if (outPos + extra <= out.length) return;
+    const grown = new Uint8Array(Math.max(out.length * 2, outPos + extra));
+    grown.set(out);
+    out = grown;
+  };
+
+  let state = 0;
+  let rep0 = 0, rep1 = 0, rep2 = 0, rep3 = 0;
+
+  while (!sizeKnown || outPos < unpackSize) {
+    const posState = outPos & pbMask;
+
+    if (rc.decodeBit(model.isMatch, (state << NUM_POS_BITS_MAX) + posState) === 0) {
+      const prevByte = outPos > 0 ? out[outPos - 1] : 0;
+      const offset = model.literalOffset(outPos, prevByte);
+      let symbol = 1;
+      if (state >= 7) {
+        let matchByte = out[outPos - rep0 - 1];
+        do {
+          const matchBit = (matchByte >> 7) & 1;
+          matchByte <<= 1;
+          const bit = rc.decodeBit(model.literal, offset + ((1 + matchBit) << 8) + symbol);
+          symbol = (symbol << 1) | bit;
+          if (matchBit !== bit) break;
+        } while (symbol < 0x100);
+      }
+      while (symbol < 0x100) {
+        symbol = (symbol << 1) | rc.decodeBit(model.literal, offset + symbol);
+      }
+      ensure(1);
+      out[outPos++] = symbol - 0x100;
+      state = stateAfterLiteral(state);
+      continue;
+    }
+
+    let len: number;
+    if (rc.decodeBit(model.isRep, state) !== 0) {
+      if (outPos === 0) throw new Error('Corrupt LZMA stream');
+      if (rc.decodeBit(model.isRepG0, state) === 0) {
+        if (rc.decodeBit(model.isRep0Long, (state << NUM_POS_BITS_MAX) + posState) === 0) {
+          state = stateAfterShortRep(state);
+          ensure(1);
+          out[outPos] = out[outPos - rep0 - 1];
+          outPos++;
+          continue;
+        }
+      } else {
+        let dist: number;
+        if (rc.decodeBit(model.isRepG1, state) === 0) {
+          dist = rep1;
+        } else {
+          if (rc.decodeBit(model.isRepG2, state) === 0) {
+            dist = rep2;
+          } else {
+            dist = rep3;
+            rep3 = rep2;
+          }
+          rep2 = rep1;
+        }
+        rep1 = rep0;
+        rep0 = dist;
+      }
+      len = rc.decodeLen(model.repLen, posState);
+      state = stateAfterRep(state);
+    } else {
+      rep3 = rep2;
+      rep2 = rep1;
+      rep1 = rep0;
+      len = rc.decodeLen(model.len, posState);
+      state = stateAfterMatch(state);
+      rep0 = decodeDistance(rc, model, len);
+      if (rep0 === 0xFFFFFFFF) break; // End marker
+      if (rep0 >= outPos) throw new Error('Corrupt LZMA stream');
+    }
+
+    len += MATCH_MIN_LEN;
+    if (sizeKnown && outPos + len > unpackSize) throw new Error('Corrupt LZMA stream');
+    ensure(len);
+    for (let i = 0; i < len; i++, outPos++) {
+      out[outPos] = out[outPos - rep0 - 1];
+    }
+  }
+
+  return out.subarray(0, outPos);
+}
+
+function decodeDistance(rc: RangeDecoder, model: LzmaModel, len: number): number {
+  const lenState = Math.min(len, NUM_LEN_TO_POS_STATES - 1);
+  const posSlot = rc.decodeTree(model.posSlot[lenState], 6);
+  if (posSlot < START_POS_MODEL_INDEX) return posSlot;
+
+  const numDirectBits = (posSlot >> 1) - 1;
+  let dist = ((2 | (posSlot & 1)) << numDirectBits) >>> 0;
+  if (posSlot < END_POS_MODEL_INDEX) {
+    return dist + rc.decodeReverseTree(model.posSpecial, numDirectBits, dist - posSlot);
+  }
+  dist += rc.decodeDirectBits(numDirectBits - NUM_ALIGN_BITS) * (1 << NUM_ALIGN_BITS);
+  return (dist + rc.decodeReverseTree(model.align, NUM_ALIGN_BITS)) >>> 0;
+}
+
+// --- Encoding ---
+
+class RangeEncoder {
+  private low = 0; // Up to 33 bits, so kept as a plain number
+  private range = 0xFFFFFFFF;
+  private cache = 0;
+  private cacheSize = 1;
+  private bytes: number[] = [];
+
+  private shiftLow(): void {
+    const carry = this.low >= 0x100000000 ? 1 : 0;
+    const low32 = this.low % 0x100000000;
+    if (low32 < 0xFF000000 || carry) {
+      let temp = this.cache;
+      do {
+        this.bytes.push((temp + carry) & 0xFF);
+        temp = 0xFF;
+      } while (--this.cacheSize !== 0);
+      this.cache = low32 >>> 24;
+    }
+    this.cacheSize++;
+    this.low = (low32 & 0x00FFFFFF) * 256;
+  }
+
+  encodeBit(probs: Uint16Array, index: number, bit: number): void {
+    const prob = probs[index];
+    const bound = (this.range >>> NUM_BIT_MODEL_TOTAL_BITS) * prob;
+    if (bit === 0) {
+      this.range = bound;
+      probs[index] = prob + ((BIT_MODEL_TOTAL - prob) >> NUM_MOVE_BITS);
+    } else {
+      this.low += bound;
+      this.range -= bound;
+      probs[index] = prob - (prob >> NUM_MOVE_BITS);
+    }
+    while (this.range < TOP_VALUE) {
+      this.range = (this.range << 8) >>> 0;
+      this.shiftLow();
+    }
+  }
+
+  encodeDirectBits(value: number, numBits: number): void {
+    for (let i = numBits - 1; i >= 0; i--) {
+      this.range >>>= 1;
+      if ((value >>> i) & 1) this.low += this.range;
+      while (this.range < TOP_VALUE) {
+        this.range = (this.range << 8) >>> 0;
+        this.shiftLow();
+      }
+    }
+  }
+
+  encodeTree(probs: Uint16Array, numBits: number, symbol: number, offset = 0): void {
+    let m = 1;
+    for (let i = numBits - 1; i >= 0; i--) {
+      const bit = (symbol >> i) & 1;
+      this.encodeBit(probs, offset + m, bit);
+      m = (m << 1) | bit;
+    }
+  }
+
+  encodeReverseTree(probs: Uint16Array, numBits: number, symbol: number, offset = 0): void {
+    let m = 1;
+    for (let i = 0; i < numBits; i++) {
+      const bit = (symbol >> i) & 1;
+      this.encodeBit(probs, offset + m, bit);
+      m = (m << 1) | bit;
+    }
+  }
+
+  encodeLen(model: LenModel, len: number, posState: number): void {
+    if (len < 8) {
+      this.encodeBit(model.choice, 0, 0);
+      this.encodeTree(model.low[posState], 3, len);
+    } else if (len < 16) {
+      this.encodeBit(model.choice, 0, 1);
+      this.encodeBit(model.choice, 1, 0);
+      this.encodeTree(model.mid[posState], 3, len - 8);
+    } else {
+      this.encodeBit(model.choice, 0, 1);
+      this.encodeBit(model.choice, 1, 1);
+      this.encodeTree(model.high, 8, len - 16);
+    }
+  }
+
+  finish(): number[] {
+    for (let i = 0; i < 5; i++) this.shiftLow();
+    return this.bytes;
+  }
+}
+
+const getPosSlot = (dist: number): number => {
+  if (dist < START_POS_MODEL_INDEX) return dist;
+  const n = 31 - Math.clz32(dist);
+  return (n << 1) | ((dist >>> (n - 1)) & 1);
+};
+
+// Match finder: hash of the next 3 bytes -> most recent position, chained to older ones
+const HASH_BITS = 16;
+const MAX_CHAIN_DEPTH = 48;
+
+/** Encode bytes as an LZMA-alone stream with a known uncompressed size */
+export function lzmaCompress(input: Uint8Array): Uint8Array {
+  const model = new LzmaModel(LC, LP, PB);
+  const rc = new RangeEncoder();
+  const pbMask = (1 << PB) - 1;
+
+  const head = new Int32Array(1 << HASH_BITS).fill(-1);
+  const chain = new Int32Array(input.length);
+  const hashAt = (pos: number) =>
+    (((input[pos] << 16) | (input[pos + 1] << 8) | input[pos + 2]) * 2654435761 >>> (32 - HASH_BITS));
+  const insert = (pos: number) => {
+    if (pos + 2 >= input.length) return;
+    const hash = hashAt(pos);
+    chain[pos] = head[hash];
+    head[hash] = pos;
+  };
+
+  let state = 0;
+  let rep0 = 0;
+  let pos = 0;
+
+  while (pos < input.length) {
+    const posState = pos & pbMask;
+
+    // Longest earlier match for the bytes at pos
+    let bestLen = 0;
+    let bestDist = 0;
+    if (pos + 2 < input.length) {
+      const maxLen = Math.min(MATCH_MAX_LEN, input.length - pos);
+      let candidate = head[hashAt(pos)];
+      for (let depth = 0; candidate >= 0 && depth < MAX_CHAIN_DEPTH; depth++) {
+        if (pos - candidate > DICT_SIZE) break;
+        let len = 0;
+        while (len < maxLen && input[candidate + len] === input[pos + len]) len++;
+        if (len > bestLen) {
+          bestLen = len;
+          bestDist = pos - candidate - 1;
+          if (len === maxLen) break;
+        }
+        candidate = chain[candidate];
+      }
+    }
+
+    if (bestLen >= 3) {
+      rc.encodeBit(model.isMatch, (state << NUM_POS_BITS_MAX) + posState, 1);
+      rc.encodeBit(model.isRep, state, 0);
+      const len = bestLen - MATCH_MIN_LEN;
+      rc.encodeLen(model.len, len, posState);
+      encodeDistance(rc, model, bestDist, len);
+      state = stateAfterMatch(state);
+      rep0 = bestDist;
+      for (let i = 0; i < bestLen; i++) insert(pos + i);
+      pos += bestLen;
+      continue;
+    }
+
+    rc.encodeBit(model.isMatch, (state << NUM_POS_BITS_MAX) + posState, 0);
+    const prevByte = pos > 0 ? input[pos - 1] : 0;
+    const offset = model.literalOffset(pos, prevByte);
+    const symbol = input[pos] | 0x100;
+    if (state >= 7) {
+      // Literal right after a match is coded relative to the byte at rep0
+      let matchByte = input[pos - rep0 - 1];
+      let context = 1;
+      let same = true;
+      for (let i = 7; i >= 0; i--) {
+        const bit = (symbol >> i) & 1;
+        if (same) {
+          const matchBit = (matchByte >> 7) & 1;
+          matchByte <<= 1;
+          rc.encodeBit(model.literal, offset + ((1 + matchBit) << 8) + context, bit);
+          same = matchBit === bit;
+        } else {
+          rc.encodeBit(model.literal, offset + context, bit);
+        }
+        context = (context << 1) | bit;
+      }
+    } else {
+      rc.encodeTree(model.literal, 8, symbol & 0xFF, offset);
+    }
+    state = stateAfterLiteral(state);
+    insert(pos);
+    pos++;
+  }
+
+  const body = rc.finish();
+  const output = new Uint8Array(13 + body.length);
+  output[0] = (PB * 5 + LP) * 9 + LC;
+  const view = new DataView(output.buffer);
+  view.setUint32(1, DICT_SIZE, true);
+  view.setUint32(5, input.length, true);
+  view.setUint32(9, 0, true);
+  output.set(body, 13);
+  return output;
+}
+
+function encodeDistance(rc: RangeEncoder, model: LzmaModel, dist: number, len: number): void {
+  const lenState = Math.min(len, NUM_LEN_TO_POS_STATES - 1);
+  const posSlot = getPosSlot(dist);
+  rc.encodeTree(model.posSlot[lenState], 6, posSlot);
+  if (posSlot < START_POS_MODEL_INDEX) return;
+
+  const footerBits = (posSlot >> 1) - 1;
+  const base = (2 | (posSlot & 1)) << footerBits;
+  const reduced = dist - base;
+  if (posSlot < END_POS_MODEL_INDEX) {
+    rc.encodeReverseTree(model.posSpecial, footerBits, reduced, base - posSlot);
+  } else {
+    rc.encodeDirectBits(reduced >>> NUM_ALIGN_BITS, footerBits - NUM_ALIGN_BITS);
+    rc.encodeReverseTree(model.align, NUM_ALIGN_BITS, reduced & ((1 << NUM_ALIGN_BITS) - 1));
+  }
+}
@@ -0,0 +1,18 @@
+import { GameClock } from './gameEngine';
+
+/** A clock that only moves when told to, for stepping GameEngine by hand */
+export class ManualClock implements GameClock {
+  constructor(private time: number = 0) {}
+
+  setTime(time: number): void {
+    this.time = time;
+  }
+
+  advance(ms: number): void {
+    this.time += ms;
+  }
+
+  getCurrentTime(): number {
+    return this.time;
+  }
+}
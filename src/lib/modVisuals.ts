@@ -0,0 +1,89 @@
+// Visual effects of mods, shared by GameCanvas and ReplayPlayer so replays
+// render exactly like live play.
+
+// Hidden: objects fade in over this share of the approach time...
+export const HIDDEN_FADE_IN = 0.4;
+// ...and fade out again over this share, finishing before the hit time
+export const HIDDEN_FADE_OUT = 0.3;
+
+const clamp01 = (value: number): number => Math.max(0, Math.min(1, value));
+
+/** Opacity of a hit circle or slider head under Hidden */
+export function getHiddenCircleAlpha(timeUntilHit: number, approachTime: number): number {
+  const visibleFor = approachTime - timeUntilHit;
+  const fadeIn = approachTime * HIDDEN_FADE_IN;
+  if (visibleFor < fadeIn) return clamp01(visibleFor / fadeIn);
+
+  const fadeOut = approachTime * HIDDEN_FADE_OUT;
+  return clamp01(1 - (visibleFor - fadeIn) / fadeOut);
+}
+
+/**
+ * Opacity of a slider body under Hidden. After fading in, the body fades out
+ * steadily until it is gone when the slider ends, so it disappears as it is followed.
+ */
+export function getHiddenSliderBodyAlpha(timeUntilHit: number, approachTime: number, duration: number): number {
+  const visibleFor = approachTime - timeUntilHit;
+  const fadeIn = approachTime * HIDDEN_FADE_IN;
+  if (visibleFor < fadeIn) return clamp01(visibleFor / fadeIn);
+
+  const fadeOut = approachTime - fadeIn + duration;
+  return clamp01(1 - (visibleFor - fadeIn) / fadeOut);
+}
+
+// Flashlight: visible radius (playfield units) shrinks as the combo grows
+export const FLASHLIGHT_RADII = [
+  { combo: 200, radius: 100 },
+  { combo: 100, radius: 135 },
+  { combo: 0, radius: 170 },
+];
+// Extra darkness over the visible area while a slider is held
+export const FLASHLIGHT_SLIDER_DIM = 0.5;
+// Time taken to lift or restore the mask at the edges of a break
+const FLASHLIGHT_BREAK_FADE = 500;
+
+export function getFlashlightRadius(combo: number): number {
+  const step = FLASHLIGHT_RADII.find(r => combo >= r.combo);
+  return step ? step.radius : FLASHLIGHT_RADII[FLASHLIGHT_RADII.length - 1].radius;
+}
+
+/** Mask opacity: lifted during breaks, fading out and back in at their edges */
+export function getFlashlightOpacity(time: number, breaks: { startTime: number; endTime: number }[]): number {
+  for (const b of breaks) {
+    if (time < b.startTime || time > b.endTime) continue;
+    const sinceStart = time - b.startTime;
+    const untilEnd = b.endTime - time;
+    return 1 - clamp01(Math.min(sinceStart, untilEnd) / FLASHLIGHT_BREAK_FADE);
+  }
+  return 1;
+}
+
+/** Draw the flashlight mask in playfield coordinates around (x, y) */
+export function drawFlashlight(
+  ctx: CanvasRenderingContext2D,
+  x: number,
+  y: number,
+  radius: number,
+  opacity: number,
+  sliderHeld: boolean
+): void {
+  if (opacity <= 0) return;
+
+  const gradient = ctx.createRadialGradient(x, y, radius * 0.8, x, y, radius);
+  // Same colour as the canvas background so the mask blends in
+  gradient.addColorStop(0, 'rgba(10, 10, 15, 0)');
+  gradient.addColorStop(1, `rgba(10, 10, 15, ${opacity})`);
+
+  ctx.save();
+  ctx.fillStyle = gradient;
+  // Cover well past the playfield so objects near the edges stay hidden
+  ctx.fillRect(-512, -384, 512 * 3, 384 * 3);
+
+  if (sliderHeld) {
+    ctx.beginPath();
+    ctx.arc(x, y, radius, 0, Math.PI * 2);
+    ctx.fillStyle = `rgba(0, 0, 0, ${FLASHLIGHT_SLIDER_DIM * opacity})`;
+    ctx.fill();
+  }
+  ctx.restore();
+}
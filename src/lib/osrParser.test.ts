@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { exportOsrFile, parseOsrFile } from './osrParser';
+import { parseOsuFile } from './osuParser';
+import { Replay, REPLAY_KEYS } from '@/types/game';
+import engineFixture from '@/test/fixtures/engine.osu?raw';
+
+// Eight combo for a full combo: four circles, a slider's three parts and a spinner
+const beatmap = parseOsuFile(engineFixture, '');
+
+const createReplay = (overrides: Partial<Replay> = {}): Replay => ({
+  beatmapHash: '0123456789abcdef0123456789abcdef',
+  playerName: 'Plàyer',
+  mods: ['hd', 'dt'],
+  score: 123456,
+  maxCombo: 8,
+  accuracy: ((5 * 300 + 100) / (6 * 300)) * 100,
+  perfectCount: 5,
+  greatCount: 1,
+  goodCount: 0,
+  missCount: 0,
+  timestamp: Date.UTC(2024, 4, 1, 12, 30),
+  frames: [
+    { time: 980, x: 100, y: 100, keys: 0 },
+    { time: 1000, x: 100.5, y: 99.25, keys: REPLAY_KEYS.K1 },
+    { time: 1017, x: 150, y: 100, keys: 0 },
+    { time: 1500, x: 200, y: 100, keys: REPLAY_KEYS.K2 },
+  ],
+  lifeBar: [
+    { time: 1000, hp: 1 },
+    { time: 3000, hp: 0.75 },
+  ],
+  ...overrides,
+});
+
+// The perfect combo flag sits after the header strings and the counts
+const getPerfectFlag = (bytes: Uint8Array, replay: Replay): number => {
+  const stringLength = (value: string) => value ? 2 + new TextEncoder().encode(value).length : 1;
+  const hashLength = 2 + 32;
+  const offset = 1 + 4 + stringLength(replay.beatmapHash) + stringLength(replay.playerName) + hashLength + 6 * 2 + 4 + 2;
+  return bytes[offset];
+};
+
+describe('exportOsrFile and parseOsrFile', () => {
+  it('round-trip a replay', () => {
+    const replay = createReplay();
+    const parsed = parseOsrFile(exportOsrFile(replay, beatmap));
+
+    expect(parsed).toMatchObject({
+      beatmapHash: replay.beatmapHash,
+      playerName: replay.playerName,
+      mods: ['hd', 'dt'],
+      score: replay.score,
+      maxCombo: replay.maxCombo,
+      perfectCount: 5,
+      greatCount: 1,
+      goodCount: 0,
+      missCount: 0,
+      timestamp: replay.timestamp,
+      frames: replay.frames,
+      lifeBar: replay.lifeBar,
+    });
+    expect(parsed.accuracy).toBeCloseTo(replay.accuracy);
+  });
+
+  it('rounds frame times without letting the rounding build up', () => {
+    const frames = Array.from({ length: 60 }, (_, i) => ({ time: i * 1000 / 60, x: 256, y: 192, keys: 0 }));
+    const parsed = parseOsrFile(exportOsrFile(createReplay({ frames }), beatmap));
+    expect(parsed.frames.map(frame => frame.time)).toEqual(frames.map(frame => Math.round(frame.time)));
+  });
+
+  it('marks only full combos as perfect', () => {
+    const fullCombo = createReplay();
+    // No misses, but a slider break cost part of the combo
+    const sliderBreak = createReplay({ maxCombo: 5 });
+    expect(getPerfectFlag(exportOsrFile(fullCombo, beatmap), fullCombo)).toBe(1);
+    expect(getPerfectFlag(exportOsrFile(sliderBreak, beatmap), sliderBreak)).toBe(0);
+  });
+
+  it('skips the placeholder frames osu! starts with', () => {
+    const replay = createReplay({
+      frames: [
+        { time: 0, x: 256, y: -500, keys: 0 },
+        { time: -1, x: 256, y: -500, keys: 0 },
+        { time: 980, x: 100, y: 100, keys: 0 },
+      ],
+    });
+    expect(parseOsrFile(exportOsrFile(replay, beatmap)).frames).toEqual([{ time: 980, x: 100, y: 100, keys: 0 }]);
+  });
+
+  it('rejects replays of other modes and truncated files', () => {
+    const bytes = exportOsrFile(createReplay(), beatmap);
+    const taiko = bytes.slice();
+    taiko[0] = 1;
+    expect(() => parseOsrFile(taiko)).toThrow('Only osu!standard replays are supported');
+    expect(() => parseOsrFile(bytes.subarray(0, 40))).toThrow('Unexpected end of replay file');
+  });
+});
@@ -0,0 +1,231 @@
+import { Beatmap, Replay, ReplayFrame, LifeBarPoint } from '@/types/game';
+import { lzmaCompress, lzmaDecompress } from './lzma';
+import { md5 } from './contentHash';
+import { getMaxCombo } from './difficultyCalculator';
+
+// osu! .osr replay files: little-endian binary header, ULEB128-prefixed
+// strings, and LZMA-compressed "delta|x|y|keys," frame text.
+
+const OSU_STANDARD_MODE = 0;
+const GAME_VERSION = 20240101;
+// Frame osu! appends to carry the RNG seed; not a cursor position
+const SEED_FRAME_DELTA = -12345;
+// osu! starts its frames with one or two placeholders off the top of the
+// playfield (0|256|-500|0, then -1|256|-500|0); their deltas still count
+const PLACEHOLDER_Y = -500;
+// .NET DateTime ticks (100ns since 0001-01-01) at the Unix epoch
+const EPOCH_TICKS = 621355968000000000n;
+
+// Mod bits in the .osr mods field
+export const OSR_MOD_BITS: Record<string, number> = {
+  ez: 1 << 1,
+  hd: 1 << 3,
+  hr: 1 << 4,
+  dt: 1 << 6,
+  ht: 1 << 8,
+  fl: 1 << 10,
+  auto: 1 << 11,
+};
+
+class BinaryReader {
+  private view: DataView;
+  private offset = 0;
+
+  constructor(private bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  private advance(size: number): number {
+    if (this.offset + size > this.bytes.length) throw new Error('Unexpected end of replay file');
+    const offset = this.offset;
+    this.offset += size;
+    return offset;
+  }
+
+  byte(): number { return this.view.getUint8(this.advance(1)); }
+  short(): number { return this.view.getUint16(this.advance(2), true); }
+  int(): number { return this.view.getInt32(this.advance(4), true); }
+  long(): bigint { return this.view.getBigInt64(this.advance(8), true); }
+  bytesOf(length: number): Uint8Array {
+    const offset = this.advance(length);
+    return this.bytes.subarray(offset, offset + length);
+  }
+
+  uleb128(): number {
+    let result = 0;
+    let shift = 0;
+    let byte: number;
+    do {
+      byte = this.byte();
+      result += (byte & 0x7F) * 2 ** shift;
+      shift += 7;
+    } while (byte & 0x80);
+    return result;
+  }
+
+  string(): string {
+    const marker = this.byte();
+    if (marker === 0x00) return '';
+    if (marker !== 0x0B) throw new Error('Invalid string in replay file');
+    return new TextDecoder().decode(this.bytesOf(this.uleb128()));
+  }
+}
+
+class BinaryWriter {
+  private bytes: number[] = [];
+  private scratch = new DataView(new ArrayBuffer(8));
+
+  private push(size: number): void {
+    for (let i = 0; i < size; i++) this.bytes.push(this.scratch.getUint8(i));
+  }
+
+  byte(value: number): void { this.bytes.push(value & 0xFF); }
+  short(value: number): void { this.scratch.setUint16(0, value, true); this.push(2); }
+  int(value: number): void { this.scratch.setInt32(0, value, true); this.push(4); }
+  long(value: bigint): void { this.scratch.setBigInt64(0, value, true); this.push(8); }
+  bytesOf(data: Uint8Array): void { data.forEach(byte => this.bytes.push(byte)); }
+
+  uleb128(value: number): void {
+    do {
+      let byte = value & 0x7F;
+      value = Math.floor(value / 128);
+      if (value > 0) byte |= 0x80;
+      this.bytes.push(byte);
+    } while (value > 0);
+  }
+
+  string(value: string): void {
+    if (!value) {
+      this.byte(0x00);
+      return;
+    }
+    const encoded = new TextEncoder().encode(value);
+    this.byte(0x0B);
+    this.uleb128(encoded.length);
+    this.bytesOf(encoded);
+  }
+
+  toUint8Array(): Uint8Array {
+    return Uint8Array.from(this.bytes);
+  }
+}
+
+const calculateAccuracy = (count300: number, count100: number, count50: number, misses: number): number => {
+  const total = count300 + count100 + count50 + misses;
+  if (total === 0) return 100;
+  return ((count300 * 300 + count100 * 100 + count50 * 50) / (total * 300)) * 100;
+};
+
+function parseFrames(text: string): ReplayFrame[] {
+  const frames: ReplayFrame[] = [];
+  let time = 0;
+  for (const entry of text.split(',')) {
+    const parts = entry.split('|');
+    if (parts.length < 4) continue;
+
+    const delta = parseInt(parts[0]);
+    if (delta === SEED_FRAME_DELTA) continue;
+    time += delta;
+    const y = parseFloat(parts[2]);
+    if (frames.length === 0 && y === PLACEHOLDER_Y) continue;
+    frames.push({
+      time,
+      x: parseFloat(parts[1]),
+      y,
+      keys: parseInt(parts[3]) || 0,
+    });
+  }
+  return frames;
+}
+
+function parseLifeBar(text: string): LifeBarPoint[] {
+  return text
+    .split(',')
+    .map(entry => entry.split('|'))
+    .filter(parts => parts.length === 2)
+    .map(([time, hp]) => ({ time: parseInt(time), hp: parseFloat(hp) }));
+}
+
+export function parseOsrFile(data: ArrayBuffer | Uint8Array): Replay {
+  const reader = new BinaryReader(data instanceof Uint8Array ? data : new Uint8Array(data));
+
+  const mode = reader.byte();
+  if (mode !== OSU_STANDARD_MODE) {
+    throw new Error('Only osu!standard replays are supported');
+  }
+  reader.int(); // game version
+  const beatmapHash = reader.string();
+  const playerName = reader.string();
+  reader.string(); // replay hash
+  const count300 = reader.short();
+  const count100 = reader.short();
+  const count50 = reader.short();
+  reader.short(); // gekis
+  reader.short(); // katus
+  const missCount = reader.short();
+  const score = reader.int();
+  const maxCombo = reader.short();
+  reader.byte(); // perfect combo
+  const modBits = reader.int();
+  const lifeBar = parseLifeBar(reader.string());
+  const ticks = reader.long();
+  const framesLength = reader.int();
+  const frameText = new TextDecoder().decode(lzmaDecompress(reader.bytesOf(framesLength)));
+
+  return {
+    beatmapHash,
+    playerName,
+    mods: Object.keys(OSR_MOD_BITS).filter(mod => modBits & OSR_MOD_BITS[mod]),
+    score,
+    maxCombo,
+    accuracy: calculateAccuracy(count300, count100, count50, missCount),
+    perfectCount: count300,
+    greatCount: count100,
+    goodCount: count50,
+    missCount,
+    timestamp: Number((ticks - EPOCH_TICKS) / 10000n),
+    frames: parseFrames(frameText),
+    lifeBar,
+  };
+}
+
+// `beatmap` is the map the replay was played on, for its full combo
+export function exportOsrFile(replay: Replay, beatmap: Beatmap): Uint8Array {
+  // Frame times are rounded before taking deltas so rounding never accumulates
+  let previousTime = 0;
+  const frameText = replay.frames.map(frame => {
+    const time = Math.round(frame.time);
+    const delta = time - previousTime;
+    previousTime = time;
+    return `${delta}|${frame.x}|${frame.y}|${frame.keys}`;
+  }).join(',') + `,${SEED_FRAME_DELTA}|0|0|0`;
+  const lifeBarText = (replay.lifeBar || [])
+    .map(point => `${Math.round(point.time)}|${point.hp}`)
+    .join(',');
+  const modBits = replay.mods.reduce((bits, mod) => bits | (OSR_MOD_BITS[mod] || 0), 0);
+  const frames = lzmaCompress(new TextEncoder().encode(frameText));
+
+  const writer = new BinaryWriter();
+  writer.byte(OSU_STANDARD_MODE);
+  writer.int(GAME_VERSION);
+  writer.string(replay.beatmapHash);
+  writer.string(replay.playerName);
+  writer.string(md5(`${replay.beatmapHash}${replay.playerName}${replay.timestamp}${replay.score}`));
+  writer.short(replay.perfectCount);
+  writer.short(replay.greatCount);
+  writer.short(replay.goodCount);
+  writer.short(0); // gekis
+  writer.short(0); // katus
+  writer.short(replay.missCount);
+  writer.int(replay.score);
+  writer.short(replay.maxCombo);
+  // Slider breaks lose combo without a miss, so only a full combo is perfect
+  writer.byte(replay.maxCombo >= getMaxCombo(beatmap.hitObjects) ? 1 : 0);
+  writer.int(modBits);
+  writer.string(lifeBarText);
+  writer.long(BigInt(replay.timestamp) * 10000n + EPOCH_TICKS);
+  writer.int(frames.length);
+  writer.bytesOf(frames);
+  writer.long(0n); // online score id
+  return writer.toUint8Array();
+}
@@ -0,0 +1,406 @@
+import { describe, it, expect } from 'vitest';
+import fc from 'fast-check';
+import { parseOsuFile, exportOsuFile, assignCombos } from './osuParser';
+import { getKiaiPulse, isKiaiAt } from './timing';
+import { Beatmap, HitObject, Slider, Spinner, TimingPoint } from '@/types/game';
+import fullFixture from '@/test/fixtures/full.osu?raw';
+
+// Fields a generated map sets for each object type
+const pickObjectFields = (obj: HitObject) => {
+  const common = {
+    type: obj.type,
+    x: obj.x,
+    y: obj.y,
+    time: obj.time,
+    comboNumber: obj.comboNumber,
+    comboColor: obj.comboColor,
+    newCombo: obj.newCombo,
+    comboColorSkip: obj.comboColorSkip,
+  };
+  if (obj.type === 'slider') {
+    return { ...common, curveType: obj.curveType, curvePoints: obj.curvePoints, slides: obj.slides, length: obj.length };
+  }
+  if (obj.type === 'spinner') {
+    return { ...common, endTime: obj.endTime };
+  }
+  return common;
+};
+
+describe('parseOsuFile', () => {
+  const beatmap = parseOsuFile(fullFixture, '');
+
+  it('keeps the MD5 of the file it is given', () => {
+    expect(parseOsuFile(fullFixture, 'd41d8cd98f00b204e9800998ecf8427e').md5).toBe('d41d8cd98f00b204e9800998ecf8427e');
+  });
+
+  it('reads general, metadata and difficulty values', () => {
+    expect(beatmap).toMatchObject({
+      audioFilename: 'audio.mp3',
+      audioLeadIn: 500,
+      previewTime: 4000,
+      countdown: 1,
+      mode: 0,
+      title: 'Fixture Song',
+      titleUnicode: 'フィクスチャ',
+      artist: 'Test Artist',
+      artistUnicode: 'テスト',
+      creator: 'mapper',
+      version: 'Insane',
+      source: 'unit tests',
+      tags: ['fixture', 'golden', 'test:colon'],
+      beatmapId: 123456,
+      beatmapSetId: 654321,
+      hpDrainRate: 6,
+      circleSize: 4.2,
+      overallDifficulty: 8,
+      approachRate: 9.3,
+      sliderMultiplier: 1.4,
+      sliderTickRate: 1,
+    });
+  });
+
+  it('reads the background and breaks from events', () => {
+    expect(beatmap.backgroundFilename).toBe('bg.jpg');
+    expect(beatmap.breaks).toEqual([{ startTime: 8100, endTime: 8900 }]);
+  });
+
+  it('reads uninherited and inherited timing points', () => {
+    expect(beatmap.timingPoints).toEqual<TimingPoint[]>([
+      { time: 0, beatLength: 500, meter: 4, sampleSet: 2, sampleIndex: 1, volume: 70, uninherited: true, effects: 0 },
+      { time: 4000, beatLength: -100, meter: 4, sampleSet: 1, sampleIndex: 0, volume: 50, uninherited: false, effects: 1 },
+      { time: 7000, beatLength: -50, meter: 4, sampleSet: 2, sampleIndex: 0, volume: 60, uninherited: false, effects: 0 },
+    ]);
+  });
+
+  it('reads timing points without the uninherited field as uninherited', () => {
+    const { timingPoints } = parseOsuFile('[TimingPoints]\n0,500,4,2,1,70\n', '');
+    expect(timingPoints).toEqual<TimingPoint[]>([
+      { time: 0, beatLength: 500, meter: 4, sampleSet: 2, sampleIndex: 1, volume: 70, uninherited: true, effects: 0 },
+    ]);
+  });
+
+  it('reads combo and slider colours', () => {
+    expect(beatmap.comboColors).toEqual(['#ff0000', '#00ff00', '#0000ff']);
+    expect(beatmap.sliderTrackOverride).toBe('#0a141e');
+    expect(beatmap.sliderBorder).toBe('#ffffff');
+  });
+
+  it('orders combo colours by number, wherever Combo1 appears', () => {
+    const colours = '[Colours]\nCombo2 : 0,255,0\nCombo1 : 255,0,0\nCombo4 : 0,0,255\n';
+    expect(parseOsuFile(colours, '').comboColors).toEqual(['#ff0000', '#00ff00', '#0000ff']);
+  });
+
+  it('reads every object type', () => {
+    expect(beatmap.hitObjects.map(obj => obj.type)).toEqual([
+      'circle', 'circle', 'slider', 'slider', 'slider', 'slider', 'spinner', 'circle',
+    ]);
+    expect(beatmap.hitObjects.map(obj => obj.comboNumber)).toEqual([1, 2, 3, 1, 2, 1, 2, 1]);
+    expect(beatmap.hitObjects.map(obj => obj.newCombo)).toEqual([true, false, false, true, false, true, true, true]);
+    expect(beatmap.hitObjects[3].comboColorSkip).toBe(1);
+  });
+
+  it('advances combo colours by one plus the colour skip', () => {
+    // The fourth object skips a colour; the spinner passes its new combo on
+    expect(beatmap.hitObjects.map(obj => obj.comboColor)).toEqual([1, 1, 1, 3, 3, 4, 4, 5]);
+    expect(beatmap.hitObjects.map(obj => beatmap.comboColors[obj.comboColor % beatmap.comboColors.length]))
+      .toEqual(['#00ff00', '#00ff00', '#00ff00', '#ff0000', '#ff0000', '#00ff00', '#00ff00', '#0000ff']);
+  });
+
+  it('reads circle hitsounds and samples', () => {
+    expect(beatmap.hitObjects[0]).toMatchObject({
+      x: 64,
+      y: 96,
+      time: 1000,
+      hitSound: 2,
+      hitSample: { normalSet: 1, additionSet: 2, index: 0, volume: 80, filename: '' },
+    });
+    expect(beatmap.hitObjects[7].hitSample?.filename).toBe('hit.wav');
+  });
+
+  it('reads slider curves, edge sounds and durations', () => {
+    const [linear, perfect, bezier, catmull] = beatmap.hitObjects.slice(2, 6) as Slider[];
+
+    expect(linear).toMatchObject({
+      curveType: 'L',
+      curvePoints: [{ x: 320, y: 96 }],
+      slides: 1,
+      length: 140,
+      duration: 500,
+      tickCount: 1,
+      edgeSounds: [2, 0],
+      edgeSets: [{ normalSet: 1, additionSet: 2 }, { normalSet: 0, additionSet: 0 }],
+    });
+    expect(perfect).toMatchObject({
+      curveType: 'P',
+      curvePoints: [{ x: 300, y: 150 }, { x: 350, y: 192 }],
+      slides: 2,
+      duration: 500,
+      edgeSounds: [0, 2, 8],
+      hitSample: { normalSet: 2, additionSet: 1 },
+    });
+    expect(bezier).toMatchObject({ curveType: 'B', curvePoints: [{ x: 150, y: 250 }, { x: 200, y: 300 }, { x: 250, y: 250 }], duration: 500 });
+    expect(catmull).toMatchObject({ curveType: 'C', duration: 250 });
+  });
+
+  it('times sliders from the red point and scales them by the green point', () => {
+    const timing = [
+      '[Difficulty]',
+      'SliderMultiplier:1',
+      'SliderTickRate:2',
+      '[TimingPoints]',
+      '0,500,4,1,0,100,1,0',
+      '1000,-50,4,1,0,100,0,0',
+      '2000,400,4,1,0,100,1,0',
+      '3000,-200,4,1,0,100,0,1',
+      '[HitObjects]',
+      '0,0,500,2,0,L|200:0,1,200',
+      '0,0,1500,2,0,L|200:0,1,200',
+      '0,0,2500,2,0,L|200:0,1,200',
+      '0,0,3500,2,0,L|200:0,1,200',
+    ].join('\n');
+    const sliders = parseOsuFile(timing, '').hitObjects as Slider[];
+
+    // 100px per beat at 1x; the red point at 2000 resets to 1x with 400ms beats
+    expect(sliders.map(slider => slider.duration)).toEqual([1000, 500, 800, 1600]);
+    expect(sliders.map(slider => slider.tickDistance)).toEqual([50, 100, 50, 25]);
+    expect(sliders.map(slider => slider.tickCount)).toEqual([3, 1, 3, 7]);
+  });
+
+  it('reads kiai from timing point effects', () => {
+    const { timingPoints } = beatmap;
+    expect(isKiaiAt(timingPoints, 3999)).toBe(false);
+    expect(isKiaiAt(timingPoints, 4000)).toBe(true);
+    expect(isKiaiAt(timingPoints, 7000)).toBe(false);
+    // Half a 500ms beat into kiai, the flash has faded halfway
+    expect(getKiaiPulse(timingPoints, 4250)).toBeCloseTo(0.5);
+  });
+
+  it('reads spinners at the playfield centre', () => {
+    expect(beatmap.hitObjects[6]).toMatchObject<Partial<Spinner>>({ x: 256, y: 192, time: 6000, endTime: 8000 });
+  });
+});
+
+// Everything but the identity of the source file
+const withoutSource = (beatmap: Beatmap) => ({ ...beatmap, md5: '', layout: undefined });
+
+describe('assignCombos', () => {
+  const circle = (newCombo: boolean, comboColorSkip = 0): HitObject =>
+    ({ type: 'circle', x: 0, y: 0, time: 0, comboNumber: 0, comboColor: 0, newCombo, comboColorSkip });
+  const spinner = (newCombo: boolean, comboColorSkip = 0): HitObject =>
+    ({ type: 'spinner', x: 256, y: 192, time: 0, endTime: 0, comboNumber: 0, comboColor: 0, newCombo, comboColorSkip });
+
+  it('always starts a combo at the first object', () => {
+    const objects = [circle(false), circle(false), circle(true, 2)];
+    assignCombos(objects);
+    expect(objects.map(obj => [obj.comboNumber, obj.comboColor])).toEqual([[1, 1], [2, 1], [1, 4]]);
+  });
+
+  it('lets spinners continue the combo and start a new one after them', () => {
+    const objects = [circle(true), spinner(true, 1), circle(false), circle(false), spinner(false), circle(false)];
+    assignCombos(objects);
+    expect(objects.map(obj => obj.comboNumber)).toEqual([1, 2, 1, 2, 3, 4]);
+    expect(objects.map(obj => obj.comboColor)).toEqual([1, 1, 3, 3, 3, 3]);
+  });
+});
+
+describe('exportOsuFile', () => {
+  it('writes an unedited v14 file back byte for byte', () => {
+    expect(exportOsuFile(parseOsuFile(fullFixture, ''))).toBe(fullFixture);
+  });
+
+  it('keeps CRLF line endings', () => {
+    const crlf = fullFixture.replace(/\n/g, '\r\n');
+    expect(exportOsuFile(parseOsuFile(crlf, ''))).toBe(crlf);
+  });
+
+  it('upgrades the version line only', () => {
+    const v12 = fullFixture.replace('v14', 'v12');
+    expect(exportOsuFile(parseOsuFile(v12, ''))).toBe(fullFixture);
+  });
+
+  it('rewrites only the lines that were edited', () => {
+    const beatmap = parseOsuFile(fullFixture, '');
+    beatmap.title = 'Edited';
+    beatmap.overallDifficulty = 7.5;
+    beatmap.hitObjects[1] = { ...beatmap.hitObjects[1], x: 140 };
+    beatmap.breaks = [{ startTime: 8200, endTime: 8800 }];
+    beatmap.backgroundFilename = 'other.png';
+
+    const expected = fullFixture
+      .replace('Title:Fixture Song', 'Title:Edited')
+      .replace('OverallDifficulty:8', 'OverallDifficulty:7.5')
+      .replace('128,96,1500,1,0,0:0:0:0:', '140,96,1500,1,0,0:0:0:0:')
+      .replace('2,8100,8900', '2,8200,8800')
+      .replace('"bg.jpg"', '"other.png"');
+    expect(exportOsuFile(beatmap)).toBe(expected);
+  });
+
+  it('drops cleared values and adds new ones in their sections', () => {
+    const beatmap = parseOsuFile(fullFixture, '');
+    beatmap.source = undefined;
+    beatmap.backgroundFilename = undefined;
+    beatmap.breaks = [];
+    beatmap.comboColors = ['#ffffff'];
+    beatmap.sliderTrackOverride = undefined;
+    beatmap.sliderBorder = '#102030';
+    beatmap.layout!.sections = beatmap.layout!.sections.filter(section => section.name !== 'Difficulty');
+    beatmap.circleSize = 6;
+
+    const exported = exportOsuFile(beatmap);
+    expect(exported).not.toContain('Source:');
+    expect(exported).not.toContain('bg.jpg');
+    expect(exported).not.toContain('2,8100,8900');
+    expect(exported).toContain('[Colours]\nCombo1 : 255,255,255\nSliderBorder : 16,32,48\n\n');
+    // Values left at the parser's defaults are not needed in a new section
+    expect(exported).toContain(
+      'BeatmapSetID:654321\n\n[Difficulty]\nHPDrainRate:6\nCircleSize:6\nOverallDifficulty:8\nApproachRate:9.3\n\n[Events]'
+    );
+    expect(exported).toContain('Sprite,Background,Centre,"sb/star.png",320,240\n F,0,0,1000,0,1\n');
+    expect(withoutSource(parseOsuFile(exported, ''))).toEqual(withoutSource(beatmap));
+  });
+
+  it('writes every modelled field for maps without an original file', () => {
+    const beatmap = parseOsuFile(fullFixture, '');
+    const reparsed = parseOsuFile(exportOsuFile(withoutSource(beatmap)), '');
+
+    expect(withoutSource(reparsed)).toEqual(withoutSource(beatmap));
+  });
+
+  // Lines osu! and other editors write that the model does not format the same way
+  const looseFixture = fullFixture
+    .replace('4000,-100,4,1,0,50,0,1', '4000,-100.000000000000,4,1,0,50,0,1')
+    .replace('7000,-50,4,2,0,60,0,0', '7000,-50,4,2,0,60,0,0\n7500,400,3,2,0,60\n8000,500')
+    .replace('128,96,1500,1,0,0:0:0:0:', '// Second combo\n128.5,96.25,1500,1,0,0:0:0:0:\n')
+    .replace('100,300,4000,2,0,B|', '100,300,4000,2,0,B|150:250|200:300|250:250,1,140\n// Last sliders\n100,300,4500,2,0,B|');
+
+  it('keeps timing point and object lines that were not edited as written', () => {
+    expect(exportOsuFile(parseOsuFile(looseFixture, ''))).toBe(looseFixture);
+  });
+
+  it('writes edited, added and removed entries in place between comments', () => {
+    const beatmap = parseOsuFile(looseFixture, '');
+    beatmap.timingPoints[3] = { ...beatmap.timingPoints[3], volume: 80 };
+    beatmap.timingPoints.splice(1, 1);
+    beatmap.hitObjects[1] = { ...beatmap.hitObjects[1], time: 1600 };
+    beatmap.hitObjects.splice(4, 1);
+    beatmap.hitObjects.push({ type: 'circle', x: 10, y: 20, time: 9500, comboNumber: 2, comboColor: 0, newCombo: false });
+
+    const expected = looseFixture
+      .replace('4000,-100.000000000000,4,1,0,50,0,1\n', '')
+      .replace('7500,400,3,2,0,60\n', '7500,400,3,2,0,80,1,0\n')
+      .replace('128.5,96.25,1500,1,0,0:0:0:0:', '128,96,1600,1,0,0:0:0:0:')
+      .replace('100,300,4000,2,0,B|150:250|200:300|250:250,1,140\n', '')
+      .replace('256,100,9000,5,8,0:0:0:0:hit.wav', '256,100,9000,5,8,0:0:0:0:hit.wav\n10,20,9500,1,0');
+    expect(exportOsuFile(beatmap)).toBe(expected);
+  });
+
+  it('uses the combo number when an object has no new combo flag', () => {
+    const beatmap = parseOsuFile('', '');
+    beatmap.hitObjects = [
+      { type: 'circle', x: 10, y: 20, time: 100, comboNumber: 1, comboColor: 0 },
+      { type: 'circle', x: 30, y: 40, time: 200, comboNumber: 2, comboColor: 0 },
+    ];
+
+    expect(exportOsuFile(beatmap)).toContain('[HitObjects]\n10,20,100,5,0\n30,40,200,1,0\n');
+  });
+});
+
+// --- Property tests ---
+
+const coordinate = fc.integer({ min: 0, max: 512 });
+
+const timingPointArb: fc.Arbitrary<TimingPoint> = fc.record({
+  time: fc.integer({ min: 0, max: 600000 }),
+  beatLength: fc.oneof(
+    fc.double({ min: 1, max: 2000, noNaN: true }),
+    fc.double({ min: -1000, max: -10, noNaN: true })
+  ),
+  meter: fc.integer({ min: 1, max: 7 }),
+  sampleSet: fc.integer({ min: 0, max: 3 }),
+  sampleIndex: fc.integer({ min: 0, max: 100 }),
+  volume: fc.integer({ min: 1, max: 100 }),
+  uninherited: fc.boolean(),
+  effects: fc.constantFrom(0, 1, 8, 9),
+});
+
+// Objects without time or combo number; both are filled in by buildBeatmap
+type ObjectShape =
+  | { type: 'circle'; x: number; y: number }
+  | { type: 'slider'; x: number; y: number; curveType: Slider['curveType']; curvePoints: { x: number; y: number }[]; slides: number; length: number }
+  | { type: 'spinner'; duration: number };
+
+const objectShapeArb: fc.Arbitrary<ObjectShape> = fc.oneof(
+  fc.record({ type: fc.constant('circle' as const), x: coordinate, y: coordinate }),
+  fc.record({
+    type: fc.constant('slider' as const),
+    x: coordinate,
+    y: coordinate,
+    curveType: fc.constantFrom('L' as const, 'P' as const, 'B' as const, 'C' as const),
+    curvePoints: fc.array(fc.record({ x: coordinate, y: coordinate }), { minLength: 1, maxLength: 4 }),
+    slides: fc.integer({ min: 1, max: 4 }),
+    length: fc.double({ min: 1, max: 1000, noNaN: true }),
+  }),
+  fc.record({ type: fc.constant('spinner' as const), duration: fc.integer({ min: 1, max: 10000 }) })
+);
+
+interface BeatmapInput {
+  timingPoints: TimingPoint[];
+  objects: { shape: ObjectShape; gap: number; newCombo: boolean; comboColorSkip: number }[];
+}
+
+const beatmapArb: fc.Arbitrary<BeatmapInput> = fc.record({
+  timingPoints: fc.array(timingPointArb, { maxLength: 10 }),
+  objects: fc.array(
+    fc.record({
+      shape: objectShapeArb,
+      gap: fc.integer({ min: 1, max: 2000 }),
+      newCombo: fc.boolean(),
+      comboColorSkip: fc.integer({ min: 0, max: 7 }),
+    }),
+    { minLength: 1, maxLength: 30 }
+  ),
+});
+
+// Combo numbers and colours are assigned the same way the parser does
+const buildBeatmap = ({ timingPoints, objects }: BeatmapInput): Beatmap => {
+  const beatmap = parseOsuFile('', '');
+  beatmap.timingPoints = [...timingPoints].sort((a, b) => a.time - b.time);
+
+  let time = 0;
+  beatmap.hitObjects = objects.map(({ shape, gap, newCombo, comboColorSkip }) => {
+    time += gap;
+    const base = { time, comboNumber: 0, comboColor: 0, newCombo, comboColorSkip };
+    if (shape.type === 'spinner') {
+      const spinner: Spinner = { ...base, type: 'spinner', x: 256, y: 192, endTime: time + shape.duration };
+      time = spinner.endTime;
+      return spinner;
+    }
+    if (shape.type === 'slider') {
+      return { ...base, ...shape, duration: 0, tickDistance: 0, tickCount: 0 };
+    }
+    return { ...base, ...shape };
+  });
+  assignCombos(beatmap.hitObjects);
+  return beatmap;
+};
+
+describe('parse(export(x)) properties', () => {
+  it('preserves hit objects', () => {
+    fc.assert(
+      fc.property(beatmapArb, input => {
+        const beatmap = buildBeatmap(input);
+        const reparsed = parseOsuFile(exportOsuFile(beatmap), '');
+        expect(reparsed.hitObjects.map(pickObjectFields)).toEqual(beatmap.hitObjects.map(pickObjectFields));
+      })
+    );
+  });
+
+  it('preserves timing points', () => {
+    fc.assert(
+      fc.property(beatmapArb, input => {
+        const beatmap = buildBeatmap(input);
+        expect(parseOsuFile(exportOsuFile(beatmap), '').timingPoints).toEqual(beatmap.timingPoints);
+      })
+    );
+  });
+});
@@ -1,9 +1,91 @@
-import { Beatmap, HitObject, HitCircle, Slider, Spinner, TimingPoint, SliderPoint } from '@/types/game';
+import { Beatmap, HitObject, HitCircle, Slider, Spinner, TimingPoint, SliderPoint, HitSample, EdgeSampleSet, OsuFileLayout, OsuFileSection } from '@/types/game';
+import { getBeatLengthAt, getSliderVelocityAt } from './timing';
+import { getTickDistances } from './sliderCurve';
+
+/**
+ * `md5` is the hash of the file's bytes, which osu! identifies maps by; it
+ * cannot be taken from `content`, as decoding drops the BOM and bad bytes.
+ * Pass '' for a map with no file behind it.
+ */
+export function parseOsuFile(content: string, md5: string): Beatmap {
+  const beatmap = createDefaultBeatmap();
+  beatmap.md5 = md5;
+
+  // Kept so exportOsuFile can write back everything not modelled here
+  const layout = readLayout(content);
+  if (layout.sections.length > 0) {
+    beatmap.layout = layout;
+  }
+
+  const comboColors: string[] = [];
+
+  for (const section of layout.sections) {
+    for (const rawLine of section.lines) {
+      const line = rawLine.trim();
+      if (!line || line.startsWith('//')) continue;
+
+      switch (section.name) {
+        case 'General':
+          parseGeneral(line, beatmap);
+          break;
+        case 'Metadata':
+          parseMetadata(line, beatmap);
+          break;
+        case 'Difficulty':
+          parseDifficulty(line, beatmap);
+          break;
+        case 'TimingPoints':
+          parseTimingPoint(line, beatmap);
+          break;
+        case 'Events':
+          parseEvent(line, beatmap);
+          break;
+        case 'Colours':
+          parseColor(line, beatmap, comboColors);
+          break;
+        case 'HitObjects':
+          const hitObject = parseHitObject(line);
+          if (hitObject) {
+            beatmap.hitObjects.push(hitObject);
+          }
+          break;
+      }
+    }
+  }
+
+  setComboColors(beatmap, comboColors);
+  assignCombos(beatmap.hitObjects);
+
+  // Calculate slider durations based on timing points
+  beatmap.hitObjects.forEach(obj => {
+    if (obj.type === 'slider') {
+      setSliderTiming(obj, beatmap);
+    }
+  });
+
+  return beatmap;
+}
+
+/** Fill in a slider's duration and ticks from the timing points at its start */
+export function setSliderTiming(slider: Slider, beatmap: Beatmap) {
+  // Beat length comes from the red point, velocity from any green point after it
+  const beatLength = getBeatLengthAt(beatmap.timingPoints, slider.time);
+  const sliderVelocity = getSliderVelocityAt(beatmap.timingPoints, slider.time);
+  const distancePerBeat = beatmap.sliderMultiplier * 100 * sliderVelocity;
+
+  slider.duration = (slider.length / distancePerBeat) * beatLength * slider.slides;
+  if (!Number.isFinite(slider.duration) || slider.duration <= 0) {
+    slider.duration = 1;
+  }
 
-export function parseOsuFile(content: string): Beatmap {
-  const lines = content.split('\n').map(line => line.trim());
-  
-  const beatmap: Beatmap = {
+  // A tick every 1 / tickRate beats, so faster sliders space them further apart
+  slider.tickDistance = distancePerBeat / beatmap.sliderTickRate;
+  slider.tickCount = Math.max(1, getTickDistances(slider.length, slider.tickDistance).length);
+}
+
+function createDefaultBeatmap(): Beatmap {
+  return {
+    md5: '',
     audioFilename: '',
     audioLeadIn: 0,
     previewTime: -1,
@@ -24,73 +106,31 @@ export function parseOsuFile(content: string): Beatmap {
     breaks: [],
     hitObjects: [],
   };
+}
 
-  let currentSection = '';
-  let comboNumber = 1;
-  let currentComboColor = 0;
+// Split the file into its sections, keeping every line untrimmed
+function readLayout(content: string): OsuFileLayout {
+  const layout: OsuFileLayout = {
+    lineEnding: content.includes('\r\n') ? '\r\n' : '\n',
+    preamble: [],
+    sections: [],
+  };
 
-  for (const line of lines) {
-    if (line.startsWith('[') && line.endsWith(']')) {
-      currentSection = line.slice(1, -1);
-      continue;
-    }
+  for (const rawLine of content.split('\n')) {
+    const line = rawLine.endsWith('\r') ? rawLine.slice(0, -1) : rawLine;
+    const trimmed = line.trim();
+    const current = layout.sections[layout.sections.length - 1];
 
-    if (!line || line.startsWith('//')) continue;
-
-    switch (currentSection) {
-      case 'General':
-        parseGeneral(line, beatmap);
-        break;
-      case 'Metadata':
-        parseMetadata(line, beatmap);
-        break;
-      case 'Difficulty':
-        parseDifficulty(line, beatmap);
-        break;
-      case 'TimingPoints':
-        parseTimingPoint(line, beatmap);
-        break;
-      case 'Events':
-        parseEvent(line, beatmap);
-        break;
-      case 'Colours':
-        parseColor(line, beatmap);
-        break;
-      case 'HitObjects':
-        const result = parseHitObject(line, comboNumber, currentComboColor);
-        if (result) {
-          beatmap.hitObjects.push(result.hitObject);
-          comboNumber = result.comboNumber;
-          currentComboColor = result.comboColor;
-        }
-        break;
+    if (trimmed.startsWith('[') && trimmed.endsWith(']')) {
+      layout.sections.push({ name: trimmed.slice(1, -1), lines: [] });
+    } else if (current) {
+      current.lines.push(line);
+    } else {
+      layout.preamble.push(line);
     }
   }
 
-  // Calculate slider durations based on timing points
-  beatmap.hitObjects.forEach(obj => {
-    if (obj.type !== 'slider') return;
-
-    const slider = obj as Slider;
-    const timingPoint = getTimingPointAt(beatmap.timingPoints, slider.time);
-
-    // Fallback to a sane default if timing points are missing
-    const beatLengthRaw = timingPoint?.beatLength ?? 500;
-    const beatLength = beatLengthRaw > 0 ? beatLengthRaw : 500;
-    const sliderVelocity = beatLengthRaw < 0 ? Math.abs(100 / beatLengthRaw) : 1;
-
-    slider.duration = (slider.length / (beatmap.sliderMultiplier * 100 * sliderVelocity)) * beatLength * slider.slides;
-    if (!Number.isFinite(slider.duration) || slider.duration <= 0) {
-      slider.duration = 1;
-    }
-
-    slider.tickCount = Math.max(
-      1,
-      Math.floor(slider.length / (100 * beatmap.sliderMultiplier / beatmap.sliderTickRate))
-    );
-  });
-
-  return beatmap;
+  return layout;
 }
 
 function parseGeneral(line: string, beatmap: Beatmap) {
@@ -178,6 +218,10 @@ function parseDifficulty(line: string, beatmap: Beatmap) {
 
 function parseEvent(line: string, beatmap: Beatmap) {
   const parts = line.split(',');
+  // Background image: 0,0,"filename",xOffset,yOffset
+  if (parts[0] === '0' && parts.length >= 3) {
+    beatmap.backgroundFilename = parts[2].replace(/^"|"$/g, '');
+  }
   // Break period: 2,startTime,endTime
   if (parts[0] === '2' && parts.length >= 3) {
     beatmap.breaks.push({
@@ -198,34 +242,81 @@ function parseTimingPoint(line: string, beatmap: Beatmap) {
     sampleSet: parseInt(parts[3]) || 0,
     sampleIndex: parseInt(parts[4]) || 0,
     volume: parseInt(parts[5]) || 100,
-    uninherited: parts[6] === '1',
+    // Older files stop after the volume, and osu! reads those points as red
+    uninherited: parts.length < 7 || parts[6] === '1',
     effects: parseInt(parts[7]) || 0,
   };
 
   beatmap.timingPoints.push(timingPoint);
 }
 
-function parseColor(line: string, beatmap: Beatmap) {
-  const match = line.match(/Combo(\d+)\s*:\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)/);
-  if (match) {
-    const index = parseInt(match[1]) - 1;
-    const r = parseInt(match[2]);
-    const g = parseInt(match[3]);
-    const b = parseInt(match[4]);
-    const hex = `#${r.toString(16).padStart(2, '0')}${g.toString(16).padStart(2, '0')}${b.toString(16).padStart(2, '0')}`;
-    
-    if (index === 0) {
-      beatmap.comboColors = [];
+// ComboN, SliderTrackOverride and SliderBorder, all as "Key : r,g,b"
+function parseColor(line: string, beatmap: Beatmap, comboColors: string[]) {
+  const match = line.match(/^(\w+)\s*:\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)/);
+  if (!match) return;
+
+  const hex = toHexColor(parseInt(match[2]), parseInt(match[3]), parseInt(match[4]));
+  const combo = match[1].match(/^Combo(\d+)$/);
+  if (combo) {
+    comboColors[parseInt(combo[1]) - 1] = hex;
+  } else if (match[1] === 'SliderTrackOverride') {
+    beatmap.sliderTrackOverride = hex;
+  } else if (match[1] === 'SliderBorder') {
+    beatmap.sliderBorder = hex;
+  }
+}
+
+// Combo colours in ComboN order, whichever comes first in the file and with
+// any gaps closed up; the defaults stay if the file defines none
+function setComboColors(beatmap: Beatmap, comboColors: string[]) {
+  const defined = comboColors.filter(Boolean);
+  if (defined.length > 0) {
+    beatmap.comboColors = defined;
+  }
+}
+
+function toHexColor(r: number, g: number, b: number): string {
+  return `#${[r, g, b].map(value => value.toString(16).padStart(2, '0')).join('')}`;
+}
+
+function formatColor(hex: string): string {
+  return [hex.slice(1, 3), hex.slice(3, 5), hex.slice(5, 7)].map(value => parseInt(value, 16)).join(',');
+}
+
+/**
+ * Number objects within their combo and give each a combo colour index the
+ * way osu! does: the first object always starts a combo, and each new combo
+ * moves the colour on by one plus its colour skip. Spinners continue the
+ * current combo but hand their new combo flag and skip to the next object.
+ * The index is not wrapped; renderers take it modulo comboColors.length.
+ */
+export function assignCombos(hitObjects: HitObject[]) {
+  let comboNumber = 0;
+  let comboColor = 0;
+  let forceNewCombo = true;
+  let carriedSkip = 0;
+
+  for (const obj of hitObjects) {
+    if (obj.type === 'spinner') {
+      forceNewCombo = forceNewCombo || obj.newCombo === true;
+      carriedSkip += obj.comboColorSkip ?? 0;
+      comboNumber++;
+    } else if (forceNewCombo || obj.newCombo) {
+      comboNumber = 1;
+      comboColor += 1 + (obj.comboColorSkip ?? 0) + carriedSkip;
+      forceNewCombo = false;
+      carriedSkip = 0;
+    } else {
+      comboNumber++;
     }
-    beatmap.comboColors[index] = hex;
+
+    obj.comboNumber = comboNumber;
+    obj.comboColor = comboColor;
   }
 }
 
-function parseHitObject(
-  line: string,
-  comboNumber: number,
-  currentComboColor: number
-): { hitObject: HitObject; comboNumber: number; comboColor: number } | null {
+// Combo numbers and colours are filled in afterwards by assignCombos
+function parseHitObject(line: string): HitObject | null {
   const parts = line.split(',');
   if (parts.length < 4) return null;
 
@@ -233,17 +324,10 @@ function parseHitObject(
   const y = parseInt(parts[1]);
   const time = parseInt(parts[2]);
   const type = parseInt(parts[3]);
+  const hitSound = parseInt(parts[4]) || 0;
 
-  // Check for new combo
   const isNewCombo = (type & 4) !== 0;
   const comboColorSkip = (type >> 4) & 7;
-  
-  if (isNewCombo) {
-    comboNumber = 1;
-    currentComboColor = (currentComboColor + 1 + comboColorSkip) % 4;
-  } else {
-    comboNumber++;
-  }
 
   // Circle
   if ((type & 1) !== 0) {
@@ -252,10 +336,14 @@ function parseHitObject(
       x,
       y,
       time,
-      comboNumber,
-      comboColor: currentComboColor,
+      comboNumber: 0,
+      comboColor: 0,
+      newCombo: isNewCombo,
+      comboColorSkip,
+      hitSound,
+      hitSample: parseHitSample(parts[5]),
     };
-    return { hitObject: circle, comboNumber, comboColor: currentComboColor };
+    return circle;
   }
 
   // Slider
@@ -282,12 +370,23 @@ function parseHitObject(
       curvePoints,
       slides,
       length,
-      comboNumber,
-      comboColor: currentComboColor,
+      comboNumber: 0,
+      comboColor: 0,
+      newCombo: isNewCombo,
+      comboColorSkip,
       duration: 0, // Calculated later
+      tickDistance: 0, // Calculated later
       tickCount: 0, // Calculated later
+      hitSound,
+      hitSample: parseHitSample(parts[10]),
     };
-    return { hitObject: slider, comboNumber, comboColor: currentComboColor };
+    if (parts[8]) {
+      slider.edgeSounds = parts[8].split('|').map(v => parseInt(v) || 0);
+    }
+    if (parts[9]) {
+      slider.edgeSets = parts[9].split('|').map(parseEdgeSet);
+    }
+    return slider;
   }
 
   // Spinner
@@ -299,86 +398,374 @@ function parseHitObject(
       y: 192,
       time,
       endTime,
-      comboNumber: 1,
-      comboColor: currentComboColor,
+      comboNumber: 0,
+      comboColor: 0,
+      newCombo: isNewCombo,
+      comboColorSkip,
+      hitSound,
+      hitSample: parseHitSample(parts[6]),
     };
-    return { hitObject: spinner, comboNumber: 1, comboColor: currentComboColor };
+    return spinner;
   }
 
   return null;
 }
 
-function getTimingPointAt(timingPoints: TimingPoint[], time: number): TimingPoint | null {
-  let result: TimingPoint | null = null;
-  for (const tp of timingPoints) {
-    if (tp.time <= time) {
-      result = tp;
-    } else {
-      break;
+// normalSet:additionSet:index:volume:filename
+function parseHitSample(value: string | undefined): HitSample | undefined {
+  if (!value || !value.includes(':')) return undefined;
+  const [normalSet, additionSet, index, volume, ...filename] = value.split(':');
+  return {
+    normalSet: parseInt(normalSet) || 0,
+    additionSet: parseInt(additionSet) || 0,
+    index: parseInt(index) || 0,
+    volume: parseInt(volume) || 0,
+    filename: filename.join(':'),
+  };
+}
+
+// normalSet:additionSet
+function parseEdgeSet(value: string): EdgeSampleSet {
+  const [normalSet, additionSet] = value.split(':');
+  return {
+    normalSet: parseInt(normalSet) || 0,
+    additionSet: parseInt(additionSet) || 0,
+  };
+}
+
+// --- Export ---
+//
+// Export starts from the layout of the parsed file and only rewrites what the
+// model says has changed, so unknown keys, [Editor], storyboard events and
+// comments come back byte for byte. Maps made in the editor use a template.
+
+const FORMAT_VERSION = 'osu file format v14';
+const VERSION_PATTERN = /osu file format v\d+/;
+
+// Modelled sections in the order a new file lists them
+const SECTION_ORDER = ['General', 'Metadata', 'Difficulty', 'Events', 'TimingPoints', 'Colours', 'HitObjects'];
+
+const TEMPLATE_LAYOUT: OsuFileLayout = {
+  lineEnding: '\n',
+  preamble: [FORMAT_VERSION, ''],
+  sections: SECTION_ORDER.map(name => ({ name, lines: [''] })),
+};
+
+interface KeyValueSection {
+  separator: string;
+  fields: [string, keyof Beatmap][];
+  parse: (line: string, beatmap: Beatmap) => void;
+  // How a changed value is written, if not as the model formats it
+  formatValue?: (value: string) => string;
+}
+
+const KEY_VALUE_SECTIONS: Record<string, KeyValueSection> = {
+  General: {
+    separator: ': ',
+    fields: [
+      ['AudioFilename', 'audioFilename'],
+      ['AudioLeadIn', 'audioLeadIn'],
+      ['PreviewTime', 'previewTime'],
+      ['Countdown', 'countdown'],
+      ['Mode', 'mode'],
+    ],
+    parse: parseGeneral,
+  },
+  Metadata: {
+    separator: ':',
+    fields: [
+      ['Title', 'title'],
+      ['TitleUnicode', 'titleUnicode'],
+      ['Artist', 'artist'],
+      ['ArtistUnicode', 'artistUnicode'],
+      ['Creator', 'creator'],
+      ['Version', 'version'],
+      ['Source', 'source'],
+      ['Tags', 'tags'],
+      ['BeatmapID', 'beatmapId'],
+      ['BeatmapSetID', 'beatmapSetId'],
+    ],
+    parse: parseMetadata,
+  },
+  Difficulty: {
+    separator: ':',
+    fields: [
+      ['HPDrainRate', 'hpDrainRate'],
+      ['CircleSize', 'circleSize'],
+      ['OverallDifficulty', 'overallDifficulty'],
+      ['ApproachRate', 'approachRate'],
+      ['SliderMultiplier', 'sliderMultiplier'],
+      ['SliderTickRate', 'sliderTickRate'],
+    ],
+    parse: parseDifficulty,
+  },
+};
+
+// The keyed colours of [Colours]; combo colours are written as a list
+const SLIDER_COLORS: KeyValueSection = {
+  separator: ' : ',
+  fields: [
+    ['SliderTrackOverride', 'sliderTrackOverride'],
+    ['SliderBorder', 'sliderBorder'],
+  ],
+  parse: (line, beatmap) => parseColor(line, beatmap, []),
+  formatValue: formatColor,
+};
+
+export function exportOsuFile(beatmap: Beatmap): string {
+  const layout = beatmap.layout ?? TEMPLATE_LAYOUT;
+  // Without an original file every known key is written, defaults included
+  const fillDefaults = !beatmap.layout;
+  const sections = layout.sections.map(section => ({ ...section, lines: [...section.lines] }));
+
+  for (const name of SECTION_ORDER) {
+    const section = sections.find(s => s.name === name);
+    const [body, trailing] = splitTrailingBlanks(section?.lines ?? []);
+    const lines = writeSection(name, body, beatmap, fillDefaults);
+
+    if (section) {
+      section.lines = [...lines, ...trailing];
+    } else if (lines.length > 0) {
+      insertSection(sections, { name, lines: [...lines, ''] });
     }
   }
-  return result;
+
+  const preamble = layout.preamble.some(line => VERSION_PATTERN.test(line))
+    ? layout.preamble.map(line => line.replace(VERSION_PATTERN, FORMAT_VERSION))
+    : [FORMAT_VERSION, '', ...layout.preamble];
+
+  return [
+    ...preamble,
+    ...sections.flatMap(section => [`[${section.name}]`, ...section.lines]),
+  ].join(layout.lineEnding);
 }
 
-export function exportOsuFile(beatmap: Beatmap): string {
-  let output = 'osu file format v14\n\n';
-
-  // General section
-  output += '[General]\n';
-  output += `AudioFilename: ${beatmap.audioFilename}\n`;
-  output += `AudioLeadIn: ${beatmap.audioLeadIn}\n`;
-  output += `PreviewTime: ${beatmap.previewTime}\n`;
-  output += `Countdown: ${beatmap.countdown}\n`;
-  output += `Mode: ${beatmap.mode}\n\n`;
-
-  // Metadata section
-  output += '[Metadata]\n';
-  output += `Title:${beatmap.title}\n`;
-  output += `Artist:${beatmap.artist}\n`;
-  output += `Creator:${beatmap.creator}\n`;
-  output += `Version:${beatmap.version}\n\n`;
-
-  // Difficulty section
-  output += '[Difficulty]\n';
-  output += `HPDrainRate:${beatmap.hpDrainRate}\n`;
-  output += `CircleSize:${beatmap.circleSize}\n`;
-  output += `OverallDifficulty:${beatmap.overallDifficulty}\n`;
-  output += `ApproachRate:${beatmap.approachRate}\n`;
-  output += `SliderMultiplier:${beatmap.sliderMultiplier}\n`;
-  output += `SliderTickRate:${beatmap.sliderTickRate}\n\n`;
-
-  // Timing Points
-  output += '[TimingPoints]\n';
-  for (const tp of beatmap.timingPoints) {
-    output += `${tp.time},${tp.beatLength},${tp.meter},${tp.sampleSet},${tp.sampleIndex},${tp.volume},${tp.uninherited ? 1 : 0},${tp.effects}\n`;
+function writeSection(name: string, lines: string[], beatmap: Beatmap, fillDefaults: boolean): string[] {
+  switch (name) {
+    case 'Events':
+      return writeEvents(lines, beatmap);
+    case 'Colours':
+      return writeColours(lines, beatmap, fillDefaults);
+    case 'TimingPoints':
+      return writeList(lines, beatmap.timingPoints, readTimingPoint, formatTimingPoint);
+    case 'HitObjects':
+      return writeList(lines, beatmap.hitObjects, parseHitObject, formatHitObject);
+    default:
+      return writeKeyValues(KEY_VALUE_SECTIONS[name], lines, beatmap, fillDefaults);
+  }
+}
+
+// Blank lines at the end of a section separate it from the next one
+function splitTrailingBlanks(lines: string[]): [string[], string[]] {
+  let end = lines.length;
+  while (end > 0 && !lines[end - 1].trim()) end--;
+  return [lines.slice(0, end), lines.slice(end)];
+}
+
+// Add a section missing from the original file before the first later one
+function insertSection(sections: OsuFileSection[], section: OsuFileSection) {
+  const order = SECTION_ORDER.indexOf(section.name);
+  const next = sections.findIndex(s => SECTION_ORDER.indexOf(s.name) > order);
+  const index = next < 0 ? sections.length : next;
+
+  const previous = sections[index - 1];
+  if (previous && previous.lines[previous.lines.length - 1]?.trim() !== '') {
+    previous.lines.push('');
   }
-  output += '\n';
-
-  // Colors
-  output += '[Colours]\n';
-  beatmap.comboColors.forEach((color, i) => {
-    const r = parseInt(color.slice(1, 3), 16);
-    const g = parseInt(color.slice(3, 5), 16);
-    const b = parseInt(color.slice(5, 7), 16);
-    output += `Combo${i + 1} : ${r},${g},${b}\n`;
+  sections.splice(index, 0, section);
+}
+
+function formatField(beatmap: Beatmap, field: keyof Beatmap): string | undefined {
+  const value = beatmap[field];
+  if (value === undefined || (typeof value === 'number' && Number.isNaN(value))) return undefined;
+  return Array.isArray(value) ? value.join(' ') : String(value);
+}
+
+function formatKeyValue(section: KeyValueSection, key: string, value: string): string {
+  return `${key}${section.separator}${section.formatValue ? section.formatValue(value) : value}`;
+}
+
+// A line is kept as written if parsing it gives the model's current value
+function writeKeyValues(section: KeyValueSection, lines: string[], beatmap: Beatmap, fillDefaults: boolean): string[] {
+  const defaults = createDefaultBeatmap();
+  const written = new Set<string>();
+  const output: string[] = [];
+
+  for (const line of lines) {
+    const trimmed = line.trim();
+    const key = trimmed.split(':')[0].trim();
+    const field = section.fields.find(([name]) => name === key);
+    if (!field || trimmed.startsWith('//')) {
+      output.push(line);
+      continue;
+    }
+
+    written.add(key);
+    const value = formatField(beatmap, field[1]);
+    if (value === undefined) continue;
+
+    const original = createDefaultBeatmap();
+    section.parse(trimmed, original);
+    output.push(formatField(original, field[1]) === value ? line : formatKeyValue(section, key, value));
+  }
+
+  for (const [key, field] of section.fields) {
+    if (written.has(key)) continue;
+    const value = formatField(beatmap, field);
+    if (value !== undefined && (fillDefaults || value !== formatField(defaults, field))) {
+      output.push(formatKeyValue(section, key, value));
+    }
+  }
+
+  return output;
+}
+
+// A line is kept as written while the entry parsed from it is still in the
+// model, matched in order by how the model would write it. Lines that parse
+// to nothing stay where they are; changed and added entries are written out
+// in full where the model has them.
+function writeList<T>(lines: string[], entries: T[], parse: (line: string) => T | null, format: (entry: T) => string): string[] {
+  const keys = lines.map(line => {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('//')) return undefined;
+    const entry = parse(trimmed);
+    return entry ? format(entry) : undefined;
+  });
+  const linesByKey = new Map<string, number[]>();
+  keys.forEach((key, index) => {
+    if (key !== undefined) linesByKey.set(key, [...(linesByKey.get(key) ?? []), index]);
   });
-  output += '\n';
-
-  // Hit Objects
-  output += '[HitObjects]\n';
-  for (const obj of beatmap.hitObjects) {
-    if (obj.type === 'circle') {
-      const typeFlag = 1 | (obj.comboNumber === 1 ? 4 : 0);
-      output += `${obj.x},${obj.y},${obj.time},${typeFlag},0,0:0:0:0:\n`;
-    } else if (obj.type === 'slider') {
-      const typeFlag = 2 | (obj.comboNumber === 1 ? 4 : 0);
-      const curveStr = `${obj.curveType}|${obj.curvePoints.map(p => `${p.x}:${p.y}`).join('|')}`;
-      output += `${obj.x},${obj.y},${obj.time},${typeFlag},0,${curveStr},${obj.slides},${obj.length}\n`;
-    } else if (obj.type === 'spinner') {
-      const typeFlag = 8 | 4;
-      output += `${obj.x},${obj.y},${obj.time},${typeFlag},0,${obj.endTime}\n`;
+
+  const output: string[] = [];
+  let next = 0;
+  // Copy the lines before `end`, dropping entries the model no longer has
+  const copyUntil = (end: number) => {
+    for (; next < end; next++) {
+      if (keys[next] === undefined) output.push(lines[next]);
+    }
+  };
+
+  for (const entry of entries) {
+    const key = format(entry);
+    const candidates = linesByKey.get(key) ?? [];
+    while (candidates.length > 0 && candidates[0] < next) candidates.shift();
+    const index = candidates.shift();
+    if (index === undefined) {
+      // After any comments leading into the line it replaces
+      let end = next;
+      while (end < lines.length && keys[end] === undefined) end++;
+      copyUntil(end);
+      output.push(key);
+    } else {
+      copyUntil(index);
+      output.push(lines[index]);
+      next = index + 1;
     }
   }
+  copyUntil(lines.length);
+  return output;
+}
+
+const isEventOfType = (line: string, type: string) => {
+  const parts = line.trim().split(',');
+  return parts[0] === type && parts.length >= 3;
+};
+
+// Only the background and break lines are modelled; storyboard lines stay put
+function writeEvents(lines: string[], beatmap: Beatmap): string[] {
+  const original = createDefaultBeatmap();
+  lines.forEach(line => parseEvent(line.trim(), original));
+  let output = [...lines];
+
+  if (original.backgroundFilename !== beatmap.backgroundFilename) {
+    const index = output.findIndex(line => isEventOfType(line, '0'));
+    const background = beatmap.backgroundFilename === undefined ? [] : [`"${beatmap.backgroundFilename}"`];
+    if (index >= 0) {
+      // Keep the original offsets
+      const parts = output[index].trim().split(',');
+      output.splice(index, 1, ...background.map(filename => [...parts.slice(0, 2), filename, ...parts.slice(3)].join(',')));
+    } else {
+      const comment = output.indexOf('//Background and Video events');
+      output.splice(comment + 1, 0, ...background.map(filename => `0,0,${filename},0,0`));
+    }
+  }
+
+  const breaksChanged = original.breaks.length !== beatmap.breaks.length ||
+    original.breaks.some((period, i) =>
+      period.startTime !== beatmap.breaks[i].startTime || period.endTime !== beatmap.breaks[i].endTime
+    );
+  if (breaksChanged) {
+    const first = output.findIndex(line => isEventOfType(line, '2'));
+    output = output.filter(line => !isEventOfType(line, '2'));
+    const comment = output.indexOf('//Break Periods');
+    const background = output.findIndex(line => isEventOfType(line, '0'));
+    const index = first >= 0 ? first : comment >= 0 ? comment + 1 : background + 1;
+    output.splice(index, 0, ...beatmap.breaks.map(period => `2,${period.startTime},${period.endTime}`));
+  }
 
   return output;
 }
+
+const isComboColourLine = (line: string) => /^Combo\d+\s*:/.test(line.trim());
+
+// Combo colours are rewritten together, slider colours key by key
+function writeColours(lines: string[], beatmap: Beatmap, fillDefaults: boolean): string[] {
+  const original = createDefaultBeatmap();
+  const comboColors: string[] = [];
+  lines.forEach(line => parseColor(line.trim(), original, comboColors));
+  setComboColors(original, comboColors);
+
+  const unchanged = original.comboColors.length === beatmap.comboColors.length &&
+    original.comboColors.every((color, i) => color === beatmap.comboColors[i]);
+  let output = lines;
+  if (!unchanged || fillDefaults) {
+    const first = lines.findIndex(isComboColourLine);
+    output = lines.filter(line => !isComboColourLine(line));
+    output.splice(Math.max(first, 0), 0, ...beatmap.comboColors.map((color, i) => `Combo${i + 1} : ${formatColor(color)}`));
+  }
+  return writeKeyValues(SLIDER_COLORS, output, beatmap, fillDefaults);
+}
+
+function readTimingPoint(line: string): TimingPoint | null {
+  const beatmap = createDefaultBeatmap();
+  parseTimingPoint(line, beatmap);
+  return beatmap.timingPoints[0] ?? null;
+}
+
+function formatTimingPoint(tp: TimingPoint): string {
+  return `${tp.time},${tp.beatLength},${tp.meter},${tp.sampleSet},${tp.sampleIndex},${tp.volume},${tp.uninherited ? 1 : 0},${tp.effects}`;
+}
+
+function formatHitSample(sample: HitSample): string {
+  return `${sample.normalSet}:${sample.additionSet}:${sample.index}:${sample.volume}:${sample.filename}`;
+}
+
+// Optional trailing fields are only written when the object has them, as the
+// parser read them; objects from the editor fall back to their combo number
+function formatHitObject(obj: HitObject): string {
+  const newCombo = obj.newCombo ?? obj.comboNumber === 1;
+  const comboBits = (newCombo ? 4 : 0) | ((obj.comboColorSkip ?? 0) << 4);
+  const head = [obj.x, obj.y, obj.time];
+  const hitSound = obj.hitSound ?? 0;
+  const hitSample = obj.hitSample ? [formatHitSample(obj.hitSample)] : [];
+
+  if (obj.type === 'circle') {
+    return [...head, 1 | comboBits, hitSound, ...hitSample].join(',');
+  }
+  if (obj.type === 'spinner') {
+    return [...head, 8 | comboBits, hitSound, obj.endTime, ...hitSample].join(',');
+  }
+
+  const curve = [obj.curveType, ...obj.curvePoints.map(p => `${p.x}:${p.y}`)].join('|');
+  const fields: (string | number)[] = [...head, 2 | comboBits, hitSound, curve, obj.slides, obj.length];
+  // Edge fields are positional, so a later field needs defaults for those before it
+  const edgeCount = obj.slides + 1;
+  if (obj.edgeSounds || obj.edgeSets || obj.hitSample) {
+    fields.push((obj.edgeSounds ?? new Array(edgeCount).fill(0)).join('|'));
+  }
+  if (obj.edgeSets || obj.hitSample) {
+    const edgeSets = obj.edgeSets ?? new Array(edgeCount).fill({ normalSet: 0, additionSet: 0 });
+    fields.push(edgeSets.map(set => `${set.normalSet}:${set.additionSet}`).join('|'));
+  }
+  return [...fields, ...hitSample].join(',');
+}
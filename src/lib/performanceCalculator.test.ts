@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { calculatePerformance, calculateFullComboPerformance, getProfilePerformance, PlayResult } from './performanceCalculator';
+import { DifficultyAttributes } from './difficultyCalculator';
+import { SavedScore } from '@/types/score';
+
+// A 5 star map of 500 objects, 400 of them circles
+const attributes: DifficultyAttributes = {
+  starRating: 5,
+  aimRating: 2.6,
+  speedRating: 2.2,
+  approachRate: 9,
+  overallDifficulty: 8,
+  maxCombo: 700,
+  hitCircleCount: 400,
+  sliderCount: 90,
+  spinnerCount: 10,
+};
+
+const play = (missCount: number, maxCombo = 700): PlayResult => ({
+  perfectCount: 480 - missCount,
+  greatCount: 15,
+  goodCount: 5,
+  missCount,
+  maxCombo,
+});
+
+const savedScore = (beatmapHash: string, pp: number | undefined): SavedScore => ({
+  id: `${beatmapHash}-${pp}`,
+  beatmapHash,
+  beatmapName: beatmapHash,
+  difficulty: 'Normal',
+  artist: 'Artist',
+  mods: [],
+  grade: 'A',
+  score: 0,
+  accuracy: 95,
+  maxCombo: 0,
+  perfectCount: 0,
+  greatCount: 0,
+  goodCount: 0,
+  missCount: 0,
+  timestamp: 0,
+  pp,
+});
+
+describe('calculatePerformance', () => {
+  it('gives less pp for each miss', () => {
+    const fullCombo = calculatePerformance(attributes, play(0), []).total;
+    const oneMiss = calculatePerformance(attributes, play(1, 400), []).total;
+    const tenMisses = calculatePerformance(attributes, play(10, 200), []).total;
+
+    expect(fullCombo).toBeGreaterThan(0);
+    expect(oneMiss).toBeLessThan(fullCombo);
+    expect(tenMisses).toBeLessThan(oneMiss);
+  });
+
+  it('gives auto plays nothing', () => {
+    expect(calculatePerformance(attributes, play(0), ['auto'])).toEqual({ total: 0, aim: 0, speed: 0, accuracy: 0 });
+  });
+
+  it('gives at least as much for the full combo as for the play', () => {
+    const broken = play(5, 300);
+    const actual = calculatePerformance(attributes, broken, []);
+    const ifFullCombo = calculateFullComboPerformance(attributes, broken, []);
+
+    expect(ifFullCombo.total).toBeGreaterThan(actual.total);
+    expect(ifFullCombo.total).toBeCloseTo(calculatePerformance(attributes, play(0), []).total);
+  });
+});
+
+describe('getProfilePerformance', () => {
+  it('weights the best play on each map by 0.95 per place', () => {
+    const scores = [
+      savedScore('a', 100),
+      savedScore('a', 300),
+      savedScore('b', 200),
+      savedScore('c', 50),
+      savedScore('c', undefined),
+    ];
+
+    expect(getProfilePerformance(scores)).toBeCloseTo(300 + 200 * 0.95 + 50 * 0.95 * 0.95);
+  });
+
+  it('is 0 without scores that have pp', () => {
+    expect(getProfilePerformance([savedScore('a', undefined)])).toBe(0);
+  });
+});
@@ -0,0 +1,125 @@
+// Performance points (pp) for a play, after osu!'s ppv2. Aim and speed come
+// from the map's star rating attributes, scaled by how the play went; accuracy
+// is judged on circles only. Unlike score, pp is comparable across maps.
+
+import { SavedScore } from '@/types/score';
+import { DifficultyAttributes } from './difficultyCalculator';
+
+export interface PlayResult {
+  perfectCount: number;
+  greatCount: number;
+  goodCount: number;
+  missCount: number;
+  maxCombo: number;
+}
+
+export interface PerformanceAttributes {
+  total: number;
+  aim: number;
+  speed: number;
+  accuracy: number;
+}
+
+// Applied on top of the combined skills
+const PERFORMANCE_MULTIPLIER = 1.12;
+// Each better play on the profile counts for this much less
+const PROFILE_WEIGHT = 0.95;
+
+// Skill value for a star rating, shared by aim and speed
+function getSkillValue(rating: number): number {
+  return Math.pow(5 * Math.max(1, rating / 0.0675) - 4, 3) / 100000;
+}
+
+/** Performance of `play` on a map with these attributes */
+export function calculatePerformance(
+  attributes: DifficultyAttributes,
+  play: PlayResult,
+  mods: string[]
+): PerformanceAttributes {
+  // Auto plays are not the player's
+  if (mods.includes('auto')) return { total: 0, aim: 0, speed: 0, accuracy: 0 };
+
+  const { approachRate: ar, overallDifficulty: od } = attributes;
+  const totalHits = play.perfectCount + play.greatCount + play.goodCount + play.missCount;
+  const accuracy = totalHits > 0
+    ? (play.perfectCount * 300 + play.greatCount * 100 + play.goodCount * 50) / (totalHits * 300)
+    : 0;
+
+  // Shared by aim and speed: longer maps, full combos and few misses are worth more
+  const lengthBonus = 0.95 + 0.4 * Math.min(1, totalHits / 2000) +
+    (totalHits > 2000 ? Math.log10(totalHits / 2000) * 0.5 : 0);
+  const missPenalty = Math.pow(0.97, play.missCount);
+  const comboScaling = attributes.maxCombo > 0
+    ? Math.min(1, Math.pow(play.maxCombo, 0.8) / Math.pow(attributes.maxCombo, 0.8))
+    : 1;
+  let approachRateFactor = 1;
+  if (ar > 10.33) approachRateFactor += 0.3 * (ar - 10.33);
+  else if (ar < 8) approachRateFactor += 0.01 * (8 - ar);
+  const hiddenBonus = mods.includes('hd') ? 1 + 0.04 * (12 - ar) : 1;
+
+  let aim = getSkillValue(attributes.aimRating) * lengthBonus * missPenalty * comboScaling;
+  aim *= approachRateFactor * hiddenBonus;
+  if (mods.includes('fl')) {
+    aim *= 1 + 0.35 * Math.min(1, totalHits / 200) +
+      (totalHits > 200 ? 0.3 * Math.min(1, (totalHits - 200) / 300) + (totalHits > 500 ? (totalHits - 500) / 1200 : 0) : 0);
+  }
+  aim *= (0.5 + accuracy / 2) * (0.98 + od * od / 2500);
+
+  let speed = getSkillValue(attributes.speedRating) * lengthBonus * missPenalty * comboScaling;
+  if (ar > 10.33) speed *= approachRateFactor;
+  speed *= hiddenBonus;
+  speed *= (0.02 + accuracy) * (0.96 + od * od / 1600);
+
+  // Sliders and spinners are easy to get 300s on, so they are counted as 300s first
+  const circles = attributes.hitCircleCount;
+  const circleAccuracy = circles > 0
+    ? Math.max(0, ((play.perfectCount - (totalHits - circles)) * 6 + play.greatCount * 2 + play.goodCount) / (circles * 6))
+    : 0;
+  let accuracyValue = Math.pow(1.52163, od) * Math.pow(circleAccuracy, 24) * 2.83;
+  accuracyValue *= Math.min(1.15, Math.pow(circles / 1000, 0.3));
+  if (mods.includes('hd')) accuracyValue *= 1.08;
+  if (mods.includes('fl')) accuracyValue *= 1.02;
+
+  const total = Math.pow(
+    Math.pow(aim, 1.1) + Math.pow(speed, 1.1) + Math.pow(accuracyValue, 1.1),
+    1 / 1.1
+  ) * PERFORMANCE_MULTIPLIER;
+
+  return { total, aim, speed, accuracy: accuracyValue };
+}
+
+/** Performance had every miss been a 300 and the combo never broken */
+export function calculateFullComboPerformance(
+  attributes: DifficultyAttributes,
+  play: PlayResult,
+  mods: string[]
+): PerformanceAttributes {
+  return calculatePerformance(attributes, {
+    perfectCount: play.perfectCount + play.missCount,
+    greatCount: play.greatCount,
+    goodCount: play.goodCount,
+    missCount: 0,
+    maxCombo: attributes.maxCombo,
+  }, mods);
+}
+
+/**
+ * Profile total: the best pp on each map, highest first, each weighted
+ * 0.95 times the one before. Scores saved before pp are left out.
+ */
+export function getProfilePerformance(scores: SavedScore[]): number {
+  const best = new Map<string, number>();
+  for (const score of scores) {
+    if (score.pp === undefined) continue;
+    const key = score.beatmapHash ?? `${score.artist}-${score.beatmapName}-${score.difficulty}`;
+    best.set(key, Math.max(best.get(key) ?? 0, score.pp));
+  }
+
+  let total = 0;
+  let weight = 1;
+  for (const pp of Array.from(best.values()).sort((a, b) => b - a)) {
+    total += pp * weight;
+    weight *= PROFILE_WEIGHT;
+  }
+  return total;
+}
@@ -0,0 +1,89 @@
+import { ReplayFrame } from '@/types/game';
+
+/** Index of the last frame at or before `time`, or -1 if every frame is later */
+export const findFrameIndex = (frames: ReplayFrame[], time: number): number => {
+  let low = 0;
+  let high = frames.length - 1;
+  let found = -1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (frames[mid].time <= time) {
+      found = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return found;
+};
+
+/**
+ * Cursor position at `time`, interpolated between the surrounding frames.
+ * Keys are those of the earlier frame, since presses happen on frames.
+ */
+export const getCursorAtTime = (frames: ReplayFrame[], time: number): ReplayFrame | null => {
+  if (frames.length === 0) return null;
+
+  const index = findFrameIndex(frames, time);
+  if (index < 0) return { ...frames[0], time };
+  const frame = frames[index];
+  const next = frames[index + 1];
+  if (!next || next.time <= frame.time) return { ...frame, time };
+
+  const t = (time - frame.time) / (next.time - frame.time);
+  return {
+    time,
+    x: frame.x + (next.x - frame.x) * t,
+    y: frame.y + (next.y - frame.y) * t,
+    keys: frame.keys,
+  };
+};
+
+// Stored frames: "dt:dx:dy[:keys]" per frame in base 36, joined by commas.
+// Times are whole ms and positions tenths of a pixel, each relative to the
+// previous frame; keys are only written when they change.
+const POSITION_SCALE = 10;
+
+// GameEngine judges live play on these same whole ms and tenths of a pixel,
+// so a stored replay re-simulates exactly as it was played
+export const quantiseFrameTime = (time: number): number => Math.round(time);
+export const quantiseFramePosition = (value: number): number =>
+  Math.round(value * POSITION_SCALE) / POSITION_SCALE;
+
+export const compressFrames = (frames: ReplayFrame[]): string => {
+  let time = 0;
+  let x = 0;
+  let y = 0;
+  let keys = 0;
+  return frames.map(frame => {
+    // Rounded before taking deltas so rounding never accumulates
+    const nextTime = Math.round(frame.time);
+    const nextX = Math.round(frame.x * POSITION_SCALE);
+    const nextY = Math.round(frame.y * POSITION_SCALE);
+    const values = [nextTime - time, nextX - x, nextY - y];
+    if (frame.keys !== keys) values.push(frame.keys);
+    time = nextTime;
+    x = nextX;
+    y = nextY;
+    keys = frame.keys;
+    return values.map(value => value.toString(36)).join(':');
+  }).join(',');
+};
+
+export const decompressFrames = (data: string): ReplayFrame[] => {
+  const frames: ReplayFrame[] = [];
+  let time = 0;
+  let x = 0;
+  let y = 0;
+  let keys = 0;
+  for (const entry of data.split(',')) {
+    if (!entry) continue;
+    const values = entry.split(':').map(value => parseInt(value, 36));
+    time += values[0];
+    x += values[1];
+    y += values[2];
+    if (values.length > 3) keys = values[3];
+    frames.push({ time, x: x / POSITION_SCALE, y: y / POSITION_SCALE, keys });
+  }
+  return frames;
+};
@@ -0,0 +1,201 @@
+import { Beatmap, GameState, HitJudgement, Replay, ReplayFrame, REPLAY_KEYS } from '@/types/game';
+import { GameEngine } from './gameEngine';
+import { ManualClock } from './manualClock';
+
+// Result fields a re-simulation must reproduce exactly to count as in sync
+const CHECKED_FIELDS = ['score', 'maxCombo', 'perfectCount', 'greatCount', 'goodCount', 'missCount'] as const;
+// The engine is updated at each frame's time, as live play recorded every
+// update that mattered. Past the last frame (imported replays that stop
+// early) it steps on a fixed 60Hz grid, so the result does not depend on how
+// often or how far playback advances it.
+const SIMULATION_STEP = 1000 / 60;
+// How long past the last object or frame a full run keeps stepping
+const END_MARGIN = 2000;
+
+export interface ReplayDesync {
+  time: number; // song time the mismatch was noticed
+  field: typeof CHECKED_FIELDS[number];
+  expected: number;
+  actual: number;
+}
+
+// Split a frame's key bitmask into the keys GameEngine tracks. K1 and K2
+// include the M1 and M2 bits, so a mouse button only counts without its key.
+const getHeldKeys = (mask: number): number[] => {
+  const keys: number[] = [];
+  if ((mask & REPLAY_KEYS.K1) === REPLAY_KEYS.K1) keys.push(REPLAY_KEYS.K1);
+  else if (mask & REPLAY_KEYS.M1) keys.push(REPLAY_KEYS.M1);
+  if ((mask & REPLAY_KEYS.K2) === REPLAY_KEYS.K2) keys.push(REPLAY_KEYS.K2);
+  else if (mask & REPLAY_KEYS.M2) keys.push(REPLAY_KEYS.M2);
+  return keys;
+};
+
+/**
+ * Feeds a replay's frames into a headless GameEngine so judgements, combo,
+ * HP and score can be shown as the replay plays. advanceTo() only moves
+ * forward; seek() re-runs from the start when going back.
+ */
+export class ReplaySimulation {
+  private clock = new ManualClock();
+  private engine = new GameEngine({ clock: this.clock, audio: null });
+  private nextFrame = 0;
+  private updateTime = -Infinity; // song time of the last engine update
+  private time = 0;
+  private heldKeys: number[] = [];
+  private lastPosition: { x: number; y: number } | null = null;
+  private judgements: HitJudgement[] = [];
+  private finalState: GameState | null = null;
+  private desync: ReplayDesync | null = null;
+  private failed = false;
+
+  constructor(private beatmap: Beatmap, private replay: Replay) {
+    this.engine.onJudgement = (judgement) => {
+      this.judgements.push(judgement);
+      this.checkRunningTotals(judgement.time);
+    };
+    this.engine.onGameEnd = (state) => {
+      this.finalState = { ...state };
+      this.checkFinalResult(state);
+    };
+    this.engine.onFail = () => {
+      this.failed = true;
+    };
+    this.reset();
+  }
+
+  reset(): void {
+    this.engine.loadBeatmap(this.beatmap);
+    this.engine.setMods(this.replay.mods);
+    this.engine.setScoringMode(this.replay.scoringMode ?? 'classic');
+    this.engine.start();
+    // Live play starts before 0 by the lead-in
+    const leadIn = this.engine.getLeadIn();
+    this.clock.setTime(-leadIn);
+    this.nextFrame = 0;
+    this.updateTime = -Infinity;
+    this.time = -leadIn;
+    this.heldKeys = [];
+    this.lastPosition = null;
+    this.judgements = [];
+    this.finalState = null;
+    this.desync = null;
+    this.failed = false;
+  }
+
+  /** Apply every frame up to `time`, then grid steps once frames run out */
+  advanceTo(time: number): void {
+    const frames = this.replay.frames;
+    while (!this.finalState) {
+      const frame = frames[this.nextFrame];
+      if (frame) {
+        if (frame.time > time) break;
+        this.applyFrame(frame);
+        this.nextFrame++;
+        continue;
+      }
+      const stepTime = this.clock.getCurrentTime() + SIMULATION_STEP;
+      if (stepTime > time) break;
+      this.updateAt(stepTime);
+    }
+    this.time = Math.max(this.time, time);
+  }
+
+  seek(time: number): void {
+    if (time < this.time) this.reset();
+    this.advanceTo(time);
+  }
+
+  // Same order as live input: the cursor moves, the engine updates at the
+  // frame's time and judges there, then keys are released and pressed. Live
+  // frames are recorded after the update that used their position; presses
+  // share the time of the update before them, which is not repeated.
+  private applyFrame(frame: ReplayFrame): void {
+    if (!this.lastPosition || this.lastPosition.x !== frame.x || this.lastPosition.y !== frame.y) {
+      this.engine.handleMouseMove(frame.x, frame.y);
+      this.lastPosition = { x: frame.x, y: frame.y };
+    }
+
+    if (frame.time > this.updateTime) this.updateAt(frame.time);
+
+    const keys = getHeldKeys(frame.keys);
+    for (const key of this.heldKeys) {
+      if (!keys.includes(key)) this.engine.handleKeyUp(key);
+    }
+    for (const key of keys) {
+      if (!this.heldKeys.includes(key)) this.engine.handleKeyDown(key);
+    }
+    this.heldKeys = keys;
+  }
+
+  private updateAt(time: number): void {
+    this.updateTime = time;
+    this.clock.setTime(time);
+    this.engine.update();
+  }
+
+  // Totals that only grow can be flagged as soon as they pass the saved result
+  private checkRunningTotals(time: number): void {
+    if (this.desync) return;
+    const state = this.engine.getGameState();
+    for (const field of CHECKED_FIELDS) {
+      if (state[field] > this.replay[field]) {
+        this.desync = { time, field, expected: this.replay[field], actual: state[field] };
+        return;
+      }
+    }
+  }
+
+  private checkFinalResult(state: GameState): void {
+    if (this.desync) return;
+    for (const field of CHECKED_FIELDS) {
+      if (state[field] !== this.replay[field]) {
+        this.desync = { time: this.engine.getCurrentTime(), field, expected: this.replay[field], actual: state[field] };
+        return;
+      }
+    }
+  }
+
+  getTime(): number {
+    return this.time;
+  }
+
+  getEngine(): GameEngine {
+    return this.engine;
+  }
+
+  getGameState(): GameState {
+    return this.finalState ?? this.engine.getGameState();
+  }
+
+  getJudgements(): HitJudgement[] {
+    return this.judgements;
+  }
+
+  getDesync(): ReplayDesync | null {
+    return this.desync;
+  }
+
+  hasFailed(): boolean {
+    return this.failed;
+  }
+
+  isFinished(): boolean {
+    return this.finalState !== null;
+  }
+}
+
+/** Run a replay to the end, for its full list of judgements and final result */
+export const simulateReplay = (beatmap: Beatmap, replay: Replay): ReplaySimulation => {
+  const simulation = new ReplaySimulation(beatmap, replay);
+  const lastObject = beatmap.hitObjects[beatmap.hitObjects.length - 1];
+  const lastObjectEnd = !lastObject
+    ? 0
+    : lastObject.type === 'slider'
+      ? lastObject.time + lastObject.duration
+      : lastObject.type === 'spinner'
+        ? lastObject.endTime
+        : lastObject.time;
+  const lastFrameTime = replay.frames[replay.frames.length - 1]?.time ?? 0;
+  simulation.advanceTo(Math.max(lastObjectEnd, lastFrameTime) + END_MARGIN);
+  return simulation;
+};
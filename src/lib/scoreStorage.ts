@@ -1,5 +1,8 @@
 import { SavedScore, getGrade } from '@/types/score';
-import { GameState, Beatmap, Replay } from '@/types/game';
+import { GameState, Beatmap, Replay, ReplayFrame, ScoringMode } from '@/types/game';
+import { compressFrames, decompressFrames } from './replayFrames';
+import { calculateDifficulty } from './difficultyCalculator';
+import { calculatePerformance } from './performanceCalculator';
 
 const SCORES_KEY = 'beats66_scores';
 const REPLAYS_KEY = 'beats66_replays';
@@ -9,16 +12,20 @@ const MAX_REPLAYS = 20;
 export const saveScore = (
   state: GameState,
   beatmap: Beatmap,
-  mods: string[]
+  mods: string[],
+  scoringMode: ScoringMode,
+  replay?: Replay
 ): SavedScore => {
-  const totalObjects = beatmap.hitObjects.length;
+  const difficulty = calculateDifficulty(beatmap, mods);
   const score: SavedScore = {
     id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    beatmapHash: beatmap.md5 || undefined,
+    replayTimestamp: replay?.timestamp,
     beatmapName: beatmap.title,
     difficulty: beatmap.version,
     artist: beatmap.artist,
     mods,
-    grade: getGrade(state.score, state.maxCombo, totalObjects),
+    grade: getGrade(state.accuracy, state.missCount),
     score: state.score,
     accuracy: state.accuracy,
     maxCombo: state.maxCombo,
@@ -27,6 +34,9 @@ export const saveScore = (
     goodCount: state.goodCount,
     missCount: state.missCount,
     timestamp: Date.now(),
+    scoringMode,
+    starRating: difficulty.starRating,
+    pp: calculatePerformance(difficulty, state, mods).total,
   };
 
   const scores = getScores();
@@ -50,6 +60,10 @@ export const getScores = (): SavedScore[] => {
   }
 };
 
+export const getScoresForBeatmap = (beatmapHash: string): SavedScore[] => {
+  return getScores().filter(s => s.beatmapHash === beatmapHash);
+};
+
 export const deleteScore = (id: string): void => {
   const scores = getScores().filter(s => s.id !== id);
   localStorage.setItem(SCORES_KEY, JSON.stringify(scores));
@@ -59,7 +73,24 @@ export const clearScores = (): void => {
   localStorage.removeItem(SCORES_KEY);
 };
 
-// Replay storage
+// Replay storage. Frames are stored delta-compressed; replays saved before
+// that still hold a plain frame array.
+type StoredReplay = Omit<Replay, 'frames'> & { frames: string | ReplayFrame[] };
+
+const toStoredReplay = (replay: Replay): StoredReplay => ({
+  ...replay,
+  frames: compressFrames(replay.frames),
+});
+
+const fromStoredReplay = (stored: StoredReplay): Replay => ({
+  ...stored,
+  frames: typeof stored.frames === 'string' ? decompressFrames(stored.frames) : stored.frames,
+});
+
+const writeReplays = (replays: Replay[]): void => {
+  localStorage.setItem(REPLAYS_KEY, JSON.stringify(replays.map(toStoredReplay)));
+};
+
 export const saveReplay = (replay: Replay): void => {
   const replays = getReplays();
   replays.unshift(replay);
@@ -68,23 +99,75 @@ export const saveReplay = (replay: Replay): void => {
     replays.length = MAX_REPLAYS;
   }
 
-  localStorage.setItem(REPLAYS_KEY, JSON.stringify(replays));
+  // Drop the oldest replays if a long play still does not fit
+  while (replays.length > 0) {
+    try {
+      writeReplays(replays);
+      return;
+    } catch {
+      replays.pop();
+    }
+  }
 };
 
 export const getReplays = (): Replay[] => {
   try {
     const data = localStorage.getItem(REPLAYS_KEY);
-    return data ? JSON.parse(data) : [];
+    return data ? (JSON.parse(data) as StoredReplay[]).map(fromStoredReplay) : [];
   } catch {
     return [];
   }
 };
 
+export const getReplaysForBeatmap = (beatmapHash: string): Replay[] => {
+  return getReplays().filter(r => r.beatmapHash === beatmapHash);
+};
+
 export const getReplayById = (timestamp: number): Replay | undefined => {
   return getReplays().find(r => r.timestamp === timestamp);
 };
 
 export const deleteReplay = (timestamp: number): void => {
-  const replays = getReplays().filter(r => r.timestamp !== timestamp);
-  localStorage.setItem(REPLAYS_KEY, JSON.stringify(replays));
+  writeReplays(getReplays().filter(r => r.timestamp !== timestamp));
+};
+
+// Migration from name-based identity. Scores used to carry only title,
+// difficulty and artist, and replays a `title-version` hash. Entries are
+// re-keyed by MD5 once the matching map is in the library; ambiguous
+// matches are left alone rather than guessed.
+const MD5_PATTERN = /^[0-9a-f]{32}$/;
+
+export const migrateLegacyEntries = (beatmaps: Beatmap[]): void => {
+  const findUnique = (matches: Beatmap[]) => matches.length === 1 ? matches[0].md5 : null;
+
+  const scores = getScores();
+  let scoresChanged = false;
+  for (const score of scores) {
+    if (score.beatmapHash) continue;
+    const hash = findUnique(beatmaps.filter(b =>
+      b.title === score.beatmapName && b.version === score.difficulty && b.artist === score.artist
+    ));
+    if (hash) {
+      score.beatmapHash = hash;
+      scoresChanged = true;
+    }
+  }
+
+  const replays = getReplays();
+  let replaysChanged = false;
+  for (const replay of replays) {
+    if (MD5_PATTERN.test(replay.beatmapHash)) continue;
+    const hash = findUnique(beatmaps.filter(b => `${b.title}-${b.version}` === replay.beatmapHash));
+    if (hash) {
+      replay.beatmapHash = hash;
+      replaysChanged = true;
+    }
+  }
+
+  try {
+    if (scoresChanged) localStorage.setItem(SCORES_KEY, JSON.stringify(scores));
+    if (replaysChanged) writeReplays(replays);
+  } catch {
+    // Storage full; the migration is retried on the next library load
+  }
 };
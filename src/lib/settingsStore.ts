@@ -0,0 +1,100 @@
+import { GameSettings } from '@/types/game';
+import { DEFAULT_INPUT_SETTINGS } from './inputSettings';
+
+const SETTINGS_KEY = 'beats66_settings';
+// Tap key bindings were stored on their own before the settings store existed
+const LEGACY_INPUT_KEY = 'beats66_input';
+const SETTINGS_VERSION = 1;
+
+interface StoredSettings {
+  version: number;
+  settings: Partial<GameSettings>;
+}
+
+export const DEFAULT_SETTINGS: GameSettings = {
+  musicVolume: 80,
+  effectVolume: 100,
+  backgroundDim: 50,
+  showFps: false,
+  cursorSize: 1,
+  activeMods: [],
+  input: DEFAULT_INPUT_SETTINGS,
+  scoringMode: 'classic',
+  globalOffset: 0,
+};
+
+// Each migration upgrades stored settings from the previous version to its own
+const MIGRATIONS: Record<number, (settings: Partial<GameSettings>) => Partial<GameSettings>> = {
+  1: (settings) => {
+    try {
+      const legacy = localStorage.getItem(LEGACY_INPUT_KEY);
+      localStorage.removeItem(LEGACY_INPUT_KEY);
+      return legacy ? { ...settings, input: { ...DEFAULT_INPUT_SETTINGS, ...JSON.parse(legacy) } } : settings;
+    } catch {
+      return settings;
+    }
+  },
+};
+
+const withDefaults = (settings: Partial<GameSettings>): GameSettings => ({
+  ...DEFAULT_SETTINGS,
+  ...settings,
+  input: { ...DEFAULT_SETTINGS.input, ...settings.input },
+});
+
+const loadSettings = (): GameSettings => {
+  let stored: StoredSettings = { version: 0, settings: {} };
+  try {
+    const data = localStorage.getItem(SETTINGS_KEY);
+    if (data) stored = JSON.parse(data);
+  } catch {
+    // Corrupt settings fall back to defaults
+  }
+
+  let settings = stored.settings || {};
+  for (let version = (stored.version || 0) + 1; version <= SETTINGS_VERSION; version++) {
+    settings = MIGRATIONS[version]?.(settings) ?? settings;
+  }
+
+  const result = withDefaults(settings);
+  if (stored.version !== SETTINGS_VERSION) {
+    persist(result);
+  }
+  return result;
+};
+
+const persist = (settings: GameSettings): void => {
+  try {
+    const stored: StoredSettings = { version: SETTINGS_VERSION, settings };
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(stored));
+  } catch {
+    // Storage may be full or unavailable; keep the in-memory settings
+  }
+};
+
+let currentSettings: GameSettings | null = null;
+const listeners = new Set<() => void>();
+
+export const getSettings = (): GameSettings => {
+  if (!currentSettings) {
+    currentSettings = loadSettings();
+  }
+  return currentSettings;
+};
+
+export const updateSettings = (patch: Partial<GameSettings>): void => {
+  currentSettings = withDefaults({ ...getSettings(), ...patch });
+  persist(currentSettings);
+  listeners.forEach(listener => listener());
+};
+
+export const resetSettings = (): void => {
+  updateSettings(DEFAULT_SETTINGS);
+};
+
+export const subscribeSettings = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
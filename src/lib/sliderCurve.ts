@@ -0,0 +1,340 @@
+// Slider curve geometry shared by the engine, the renderers and the editor.
+// Builds the real osu! path for each curve type and samples it by distance.
+
+import { Slider, Vector2 } from '@/types/game';
+
+export interface SliderPath {
+  points: Vector2[];
+  // Distance from the start of the path to each point
+  cumulativeLengths: number[];
+  length: number;
+}
+
+// Maximum distance between the control polygon and the flattened Bezier curve
+const BEZIER_TOLERANCE = 0.25;
+// Maximum angular step when flattening a perfect-circle arc
+const ARC_TOLERANCE = 0.1;
+const CATMULL_DETAIL = 50;
+
+const pathCache = new WeakMap<Slider, SliderPath>();
+
+const distance = (a: Vector2, b: Vector2): number => Math.hypot(b.x - a.x, b.y - a.y);
+
+const isSamePoint = (a: Vector2, b: Vector2): boolean => a.x === b.x && a.y === b.y;
+
+function approximateLinear(controlPoints: Vector2[]): Vector2[] {
+  return controlPoints.map(p => ({ x: p.x, y: p.y }));
+}
+
+function isBezierFlatEnough(controlPoints: Vector2[]): boolean {
+  for (let i = 1; i < controlPoints.length - 1; i++) {
+    const prev = controlPoints[i - 1];
+    const curr = controlPoints[i];
+    const next = controlPoints[i + 1];
+    const dx = prev.x - 2 * curr.x + next.x;
+    const dy = prev.y - 2 * curr.y + next.y;
+    if (dx * dx + dy * dy > BEZIER_TOLERANCE * BEZIER_TOLERANCE * 4) {
+      return false;
+    }
+  }
+  return true;
+}
+
+// Split a Bezier curve in half with de Casteljau's algorithm
+function subdivideBezier(controlPoints: Vector2[]): { left: Vector2[]; right: Vector2[] } {
+  const count = controlPoints.length;
+  const left: Vector2[] = new Array(count);
+  const right: Vector2[] = new Array(count);
+  let midpoints = controlPoints.map(p => ({ x: p.x, y: p.y }));
+
+  for (let i = 0; i < count; i++) {
+    left[i] = midpoints[0];
+    right[count - i - 1] = midpoints[midpoints.length - 1];
+    const next: Vector2[] = [];
+    for (let j = 0; j < midpoints.length - 1; j++) {
+      next.push({
+        x: (midpoints[j].x + midpoints[j + 1].x) / 2,
+        y: (midpoints[j].y + midpoints[j + 1].y) / 2,
+      });
+    }
+    midpoints = next;
+  }
+
+  return { left, right };
+}
+
+function approximateBezierSegment(controlPoints: Vector2[]): Vector2[] {
+  if (controlPoints.length < 2) return controlPoints.map(p => ({ x: p.x, y: p.y }));
+
+  const output: Vector2[] = [];
+  const stack: Vector2[][] = [controlPoints];
+
+  // Depth-first so that points come out in order along the curve
+  while (stack.length > 0) {
+    const current = stack.pop()!;
+    if (isBezierFlatEnough(current)) {
+      // The last point is pushed by the following piece, or at the very end
+      for (let i = 0; i < current.length - 1; i++) {
+        output.push(current[i]);
+      }
+      continue;
+    }
+    const { left, right } = subdivideBezier(current);
+    stack.push(right, left);
+  }
+
+  output.push({ ...controlPoints[controlPoints.length - 1] });
+  return output;
+}
+
+// Consecutive duplicate control points ("red anchors") split the curve into separate Bezier segments
+function approximateBezier(controlPoints: Vector2[]): Vector2[] {
+  const output: Vector2[] = [];
+  let segmentStart = 0;
+
+  for (let i = 1; i <= controlPoints.length; i++) {
+    const atEnd = i === controlPoints.length;
+    if (!atEnd && !isSamePoint(controlPoints[i], controlPoints[i - 1])) continue;
+
+    const segment = controlPoints.slice(segmentStart, i);
+    if (segment.length > 1) {
+      const points = approximateBezierSegment(segment);
+      if (output.length > 0) points.shift();
+      output.push(...points);
+    }
+    segmentStart = i;
+  }
+
+  return output.length > 0 ? output : approximateLinear(controlPoints);
+}
+
+function catmullPoint(v1: Vector2, v2: Vector2, v3: Vector2, v4: Vector2, t: number): Vector2 {
+  const t2 = t * t;
+  const t3 = t2 * t;
+  return {
+    x: 0.5 * (2 * v2.x + (-v1.x + v3.x) * t + (2 * v1.x - 5 * v2.x + 4 * v3.x - v4.x) * t2 + (-v1.x + 3 * v2.x - 3 * v3.x + v4.x) * t3),
+    y: 0.5 * (2 * v2.y + (-v1.y + v3.y) * t + (2 * v1.y - 5 * v2.y + 4 * v3.y - v4.y) * t2 + (-v1.y + 3 * v2.y - 3 * v3.y + v4.y) * t3),
+  };
+}
+
+function approximateCatmull(controlPoints: Vector2[]): Vector2[] {
+  const output: Vector2[] = [];
+  const count = controlPoints.length;
+
+  for (let i = 0; i < count - 1; i++) {
+    const v1 = i > 0 ? controlPoints[i - 1] : controlPoints[i];
+    const v2 = controlPoints[i];
+    const v3 = controlPoints[i + 1];
+    const v4 = i < count - 2
+      ? controlPoints[i + 2]
+      : { x: 2 * v3.x - v2.x, y: 2 * v3.y - v2.y };
+
+    for (let step = 0; step < CATMULL_DETAIL; step++) {
+      output.push(catmullPoint(v1, v2, v3, v4, step / CATMULL_DETAIL));
+    }
+  }
+
+  output.push({ ...controlPoints[count - 1] });
+  return output;
+}
+
+// Circular arc through three points; null when they are (nearly) collinear
+function approximatePerfectCircle(controlPoints: Vector2[]): Vector2[] | null {
+  const [a, b, c] = controlPoints;
+  const d = 2 * (a.x * (b.y - c.y) + b.x * (c.y - a.y) + c.x * (a.y - b.y));
+  if (Math.abs(d) < 1e-3) return null;
+
+  const aSq = a.x * a.x + a.y * a.y;
+  const bSq = b.x * b.x + b.y * b.y;
+  const cSq = c.x * c.x + c.y * c.y;
+  const center = {
+    x: (aSq * (b.y - c.y) + bSq * (c.y - a.y) + cSq * (a.y - b.y)) / d,
+    y: (aSq * (c.x - b.x) + bSq * (a.x - c.x) + cSq * (b.x - a.x)) / d,
+  };
+  const radius = distance(center, a);
+
+  const startAngle = Math.atan2(a.y - center.y, a.x - center.x);
+  let endAngle = Math.atan2(c.y - center.y, c.x - center.x);
+  while (endAngle < startAngle) endAngle += Math.PI * 2;
+
+  // Go the other way round if the arc does not pass through the middle point
+  let direction = 1;
+  let range = endAngle - startAngle;
+  const orientation = (b.x - a.x) * (c.y - a.y) - (b.y - a.y) * (c.x - a.x);
+  if (orientation < 0) {
+    direction = -1;
+    range = Math.PI * 2 - range;
+  }
+
+  const maxStep = radius > ARC_TOLERANCE * 2
+    ? 2 * Math.acos(1 - ARC_TOLERANCE / radius)
+    : Math.PI / 8;
+  const steps = Math.max(2, Math.ceil(range / maxStep));
+
+  const output: Vector2[] = [];
+  for (let i = 0; i <= steps; i++) {
+    const angle = startAngle + direction * (i / steps) * range;
+    output.push({
+      x: center.x + Math.cos(angle) * radius,
+      y: center.y + Math.sin(angle) * radius,
+    });
+  }
+  return output;
+}
+
+function approximateCurve(curveType: Slider['curveType'], controlPoints: Vector2[]): Vector2[] {
+  switch (curveType) {
+    case 'L':
+      return approximateLinear(controlPoints);
+    case 'P':
+      if (controlPoints.length === 3) {
+        const arc = approximatePerfectCircle(controlPoints);
+        if (arc) return arc;
+      }
+      return approximateBezier(controlPoints);
+    case 'C':
+      return approximateCatmull(controlPoints);
+    case 'B':
+    default:
+      return approximateBezier(controlPoints);
+  }
+}
+
+/**
+ * Build the flattened path for a set of control points and trim (or extend) it
+ * to `expectedLength`. Pass no length to keep the full curve.
+ */
+export function buildSliderPath(
+  curveType: Slider['curveType'],
+  controlPoints: Vector2[],
+  expectedLength?: number
+): SliderPath {
+  const raw = controlPoints.length > 1 ? approximateCurve(curveType, controlPoints) : [];
+  const points: Vector2[] = [];
+  const cumulativeLengths: number[] = [];
+  let total = 0;
+
+  for (const point of raw) {
+    if (points.length > 0) {
+      const step = distance(points[points.length - 1], point);
+      if (step === 0) continue;
+      total += step;
+    }
+    points.push(point);
+    cumulativeLengths.push(total);
+  }
+
+  if (points.length === 0) {
+    const start = controlPoints[0] ?? { x: 0, y: 0 };
+    return { points: [{ ...start }], cumulativeLengths: [0], length: 0 };
+  }
+
+  if (expectedLength === undefined || expectedLength <= 0 || points.length < 2) {
+    return { points, cumulativeLengths, length: total };
+  }
+
+  if (total > expectedLength) {
+    // Drop everything past the expected length and cut the last segment short
+    let end = cumulativeLengths.findIndex(l => l >= expectedLength);
+    if (end < 1) end = 1;
+    const trimmedPoints = points.slice(0, end + 1);
+    const trimmedLengths = cumulativeLengths.slice(0, end + 1);
+    trimmedPoints[end] = interpolate(points[end - 1], points[end], cumulativeLengths[end - 1], cumulativeLengths[end], expectedLength);
+    trimmedLengths[end] = expectedLength;
+    return { points: trimmedPoints, cumulativeLengths: trimmedLengths, length: expectedLength };
+  }
+
+  if (total < expectedLength) {
+    // osu! extends a short curve in the direction of its last segment
+    const last = points[points.length - 1];
+    const before = points[points.length - 2];
+    const segmentLength = distance(before, last);
+    const extra = expectedLength - total;
+    points[points.length - 1] = {
+      x: last.x + ((last.x - before.x) / segmentLength) * extra,
+      y: last.y + ((last.y - before.y) / segmentLength) * extra,
+    };
+    cumulativeLengths[cumulativeLengths.length - 1] = expectedLength;
+    return { points, cumulativeLengths, length: expectedLength };
+  }
+
+  return { points, cumulativeLengths, length: total };
+}
+
+function interpolate(a: Vector2, b: Vector2, startLength: number, endLength: number, target: number): Vector2 {
+  const span = endLength - startLength;
+  const t = span > 0 ? (target - startLength) / span : 0;
+  return {
+    x: a.x + (b.x - a.x) * t,
+    y: a.y + (b.y - a.y) * t,
+  };
+}
+
+/** Path for a slider, built once and cached per slider object */
+export function getSliderPath(slider: Slider): SliderPath {
+  let path = pathCache.get(slider);
+  if (!path) {
+    path = buildSliderPath(slider.curveType, [{ x: slider.x, y: slider.y }, ...slider.curvePoints], slider.length);
+    pathCache.set(slider, path);
+  }
+  return path;
+}
+
+/** Position at a distance along the path, clamped to its ends */
+export function getPositionAtDistance(path: SliderPath, dist: number): Vector2 {
+  const { points, cumulativeLengths } = path;
+  if (points.length === 1 || dist <= 0) return { ...points[0] };
+  if (dist >= path.length) return { ...points[points.length - 1] };
+
+  // Binary search for the first point at or past the distance
+  let low = 1;
+  let high = cumulativeLengths.length - 1;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (cumulativeLengths[mid] < dist) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+
+  return interpolate(points[low - 1], points[low], cumulativeLengths[low - 1], cumulativeLengths[low], dist);
+}
+
+/** Position at a fraction (0-1) of the path length */
+export function getPositionAtProgress(path: SliderPath, t: number): Vector2 {
+  return getPositionAtDistance(path, t * path.length);
+}
+
+/**
+ * Slider ball position for the overall progress (0-1) of a slider,
+ * following the path back and forth across repeats.
+ */
+export function getSliderPosition(slider: Slider, progress: number): Vector2 {
+  const slides = Math.max(1, slider.slides);
+  const span = Math.max(0, Math.min(1, progress)) * slides;
+  const slideNumber = Math.floor(span);
+  let t = span - slideNumber;
+  if (slideNumber % 2 === 1) t = 1 - t;
+
+  return getPositionAtProgress(getSliderPath(slider), t);
+}
+
+/** Position where the first slide of the slider ends */
+export function getSliderEndPosition(slider: Slider): Vector2 {
+  const path = getSliderPath(slider);
+  return { ...path.points[path.points.length - 1] };
+}
+
+/**
+ * Distances along the path of the ticks on one span, every `tickDistance`
+ * from the head. Ticks within a tenth of a tick of the end are left out.
+ */
+export function getTickDistances(length: number, tickDistance: number): number[] {
+  const distances: number[] = [];
+  if (!(tickDistance > 0) || !Number.isFinite(tickDistance)) return distances;
+  for (let d = tickDistance; d < length - tickDistance * 0.1; d += tickDistance) {
+    distances.push(d);
+  }
+  return distances;
+}
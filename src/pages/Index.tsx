@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { AnimatePresence, motion } from 'framer-motion';
 import { MainMenu } from '@/components/game/MainMenu';
 import { SongSelect } from '@/components/game/SongSelect';
@@ -8,10 +8,14 @@ import { SettingsPanel } from '@/components/game/SettingsPanel';
 import { BeatmapEditor } from '@/components/game/BeatmapEditor';
 import { ScoresScreen } from '@/components/game/ScoresScreen';
 import { ReplayPlayer } from '@/components/game/ReplayPlayer';
+import { OffsetCalibration } from '@/components/game/OffsetCalibration';
 import { Beatmap, GameState, Replay } from '@/types/game';
 import { saveScore, saveReplay } from '@/lib/scoreStorage';
+import { audioEngine } from '@/lib/audioEngine';
+import { gameEngine } from '@/lib/gameEngine';
+import { useSettings } from '@/hooks/use-settings';
 
-type GameScreen = 'menu' | 'songSelect' | 'playing' | 'results' | 'settings' | 'editor' | 'scores' | 'replay';
+type GameScreen = 'menu' | 'songSelect' | 'playing' | 'results' | 'settings' | 'calibration' | 'editor' | 'scores' | 'replay';
 
 const Index = () => {
   const [currentScreen, setCurrentScreen] = useState<GameScreen>('menu');
@@ -19,6 +23,15 @@ const Index = () => {
   const [activeMods, setActiveMods] = useState<string[]>([]);
   const [gameResults, setGameResults] = useState<GameState | null>(null);
   const [currentReplay, setCurrentReplay] = useState<Replay | null>(null);
+  // Replays can be opened from the results screen or a song select leaderboard
+  const [replayReturnScreen, setReplayReturnScreen] = useState<GameScreen>('results');
+  const settings = useSettings();
+
+  // Volume changes apply live, including mid-song
+  useEffect(() => {
+    audioEngine.setVolume(settings.musicVolume / 100);
+    audioEngine.setEffectVolume(settings.effectVolume / 100);
+  }, [settings.musicVolume, settings.effectVolume]);
 
   const handleStartGame = (beatmap: Beatmap, mods: string[]) => {
     setSelectedBeatmap(beatmap);
@@ -29,7 +42,8 @@ const Index = () => {
   const handleGameEnd = (state: GameState, replay?: Replay) => {
     setGameResults(state);
     if (selectedBeatmap) {
-      saveScore(state, selectedBeatmap, activeMods);
+      // The mode the play was scored in, even if settings changed since it started
+      saveScore(state, selectedBeatmap, activeMods, gameEngine.getScoringMode(), replay);
       if (replay) {
         saveReplay(replay);
         setCurrentReplay(replay);
@@ -45,10 +59,18 @@ const Index = () => {
 
   const handleWatchReplay = () => {
     if (currentReplay && selectedBeatmap) {
+      setReplayReturnScreen('results');
       setCurrentScreen('replay');
     }
   };
 
+  const handleWatchLeaderboardReplay = (beatmap: Beatmap, replay: Replay) => {
+    setSelectedBeatmap(beatmap);
+    setCurrentReplay(replay);
+    setReplayReturnScreen('songSelect');
+    setCurrentScreen('replay');
+  };
+
   return (
     <div className="min-h-screen bg-background overflow-hidden">
       <AnimatePresence mode="wait">
@@ -78,6 +100,7 @@ const Index = () => {
             <SongSelect
               onBack={() => setCurrentScreen('menu')}
               onStartGame={handleStartGame}
+              onWatchReplay={handleWatchLeaderboardReplay}
             />
           </motion.div>
         )}
@@ -123,7 +146,21 @@ const Index = () => {
             animate={{ opacity: 1, x: 0 }}
             exit={{ opacity: 0, x: -100 }}
           >
-            <SettingsPanel onBack={() => setCurrentScreen('menu')} />
+            <SettingsPanel
+              onBack={() => setCurrentScreen('menu')}
+              onCalibrate={() => setCurrentScreen('calibration')}
+            />
+          </motion.div>
+        )}
+
+        {currentScreen === 'calibration' && (
+          <motion.div
+            key="calibration"
+            initial={{ opacity: 0, x: 100 }}
+            animate={{ opacity: 1, x: 0 }}
+            exit={{ opacity: 0, x: -100 }}
+          >
+            <OffsetCalibration onBack={() => setCurrentScreen('settings')} />
           </motion.div>
         )}
 
@@ -159,7 +196,7 @@ const Index = () => {
             <ReplayPlayer
               beatmap={selectedBeatmap}
               replay={currentReplay}
-              onBack={() => setCurrentScreen('results')}
+              onBack={() => setCurrentScreen(replayReturnScreen)}
             />
           </motion.div>
         )}
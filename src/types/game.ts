@@ -7,13 +7,43 @@ export interface Vector2 {
   y: number;
 }
 
+// Hitsound bit flags (hitSound field of a hit object)
+export const HIT_SOUNDS = {
+  normal: 1,
+  whistle: 2,
+  finish: 4,
+  clap: 8,
+};
+
+// Sample set indices as used by timing points and hit samples (0 = inherit)
+export const SAMPLE_SETS = ['auto', 'normal', 'soft', 'drum'] as const;
+// Sets with samples of their own; 'auto' always resolves to one of these
+export type SampleSetName = Exclude<typeof SAMPLE_SETS[number], 'auto'>;
+
+export interface HitSample {
+  normalSet: number;
+  additionSet: number;
+  index: number;
+  volume: number; // 0 = use the timing point volume
+  filename: string;
+}
+
+export interface EdgeSampleSet {
+  normalSet: number;
+  additionSet: number;
+}
+
 export interface HitCircle {
   type: 'circle';
   x: number;
   y: number;
   time: number;
   comboNumber: number;
-  comboColor: number;
+  comboColor: number; // combo index with skips; the colour is comboColors[comboColor % comboColors.length]
+  newCombo?: boolean; // type bit 4 as written in the file
+  comboColorSkip?: number; // colours skipped at this new combo (type bits 4-6)
+  hitSound?: number;
+  hitSample?: HitSample;
 }
 
 export interface SliderPoint {
@@ -31,9 +61,16 @@ export interface Slider {
   slides: number; // repeat count
   length: number;
   comboNumber: number;
-  comboColor: number;
+  comboColor: number; // combo index with skips; the colour is comboColors[comboColor % comboColors.length]
+  newCombo?: boolean; // type bit 4 as written in the file
+  comboColorSkip?: number; // colours skipped at this new combo (type bits 4-6)
   duration: number;
-  tickCount: number;
+  tickDistance: number; // path distance between ticks, scaled by slider velocity
+  tickCount: number; // ticks on each span
+  hitSound?: number;
+  hitSample?: HitSample;
+  edgeSounds?: number[]; // head, each repeat, tail
+  edgeSets?: EdgeSampleSet[];
 }
 
 export interface Spinner {
@@ -43,20 +80,43 @@ export interface Spinner {
   time: number;
   endTime: number;
   comboNumber: number;
-  comboColor: number;
+  comboColor: number; // combo index with skips; the colour is comboColors[comboColor % comboColors.length]
+  newCombo?: boolean; // type bit 4 as written in the file
+  comboColorSkip?: number; // colours skipped at this new combo (type bits 4-6)
+  hitSound?: number;
+  hitSample?: HitSample;
 }
 
 export type HitObject = HitCircle | Slider | Spinner;
 
+// Timing point effect bit flags
+export const TIMING_EFFECTS = {
+  kiai: 1,
+  omitFirstBarline: 8,
+};
+
 export interface TimingPoint {
   time: number;
-  beatLength: number; // milliseconds per beat (positive = BPM, negative = inherited)
+  beatLength: number; // ms per beat if uninherited; if inherited, -100 / slider velocity
   meter: number;
   sampleSet: number;
   sampleIndex: number;
   volume: number;
   uninherited: boolean;
-  effects: number;
+  effects: number; // TIMING_EFFECTS bits
+}
+
+// The raw text of a parsed .osu file, so export can write back everything the
+// parser does not model: unknown keys, [Editor], storyboard events, comments
+export interface OsuFileSection {
+  name: string;
+  lines: string[]; // raw lines after the [Name] header, including blank separators
+}
+
+export interface OsuFileLayout {
+  lineEnding: '\n' | '\r\n';
+  preamble: string[]; // lines before the first section, e.g. the version line
+  sections: OsuFileSection[];
 }
 
 export interface BreakPeriod {
@@ -65,6 +125,9 @@ export interface BreakPeriod {
 }
 
 export interface Beatmap {
+  // MD5 of the .osu content, identifying the map for scores and replays
+  md5: string;
+
   // General
   audioFilename: string;
   audioLeadIn: number;
@@ -94,6 +157,8 @@ export interface Beatmap {
 
   // Colors
   comboColors: string[];
+  sliderTrackOverride?: string; // slider body colour instead of the combo colour
+  sliderBorder?: string;
 
   // Timing
   timingPoints: TimingPoint[];
@@ -101,11 +166,17 @@ export interface Beatmap {
   // Break periods
   breaks: BreakPeriod[];
 
+  // Events
+  backgroundFilename?: string;
+
   // Hit objects
   hitObjects: HitObject[];
 
   // Audio (loaded separately)
   audioBuffer?: AudioBuffer;
+
+  // Original file layout; absent for maps created in the editor
+  layout?: OsuFileLayout;
 }
 
 export type HitResult = 'perfect' | 'great' | 'good' | 'miss';
@@ -117,6 +188,13 @@ export interface HitJudgement {
   y: number;
   hitObject: HitObject;
   points: number;
+  hitError?: number; // ms from the object's time, negative when early; circles and slider heads only
+}
+
+// A timed press on a circle or slider head, for the hit error meter
+export interface HitError {
+  time: number; // when the press landed
+  error: number; // ms from the object's time, negative when early
 }
 
 export interface GameState {
@@ -129,6 +207,8 @@ export interface GameState {
   greatCount: number;
   goodCount: number;
   missCount: number;
+  unstableRate: number; // 10x the standard deviation of hit errors
+  meanHitError: number; // ms, negative when hits are early on average
 }
 
 export interface Mod {
@@ -150,11 +230,25 @@ export const MODS: Mod[] = [
   { id: 'fl', name: 'Flashlight', shortName: 'FL', description: 'Limited field of view', multiplier: 1.12, icon: '🔦' },
 ];
 
+// Replay key bits (osu! layout: a keyboard key also sets its mouse bit)
+export const REPLAY_KEYS = {
+  M1: 1,
+  M2: 2,
+  K1: 4 | 1,
+  K2: 8 | 2,
+};
+
 export interface ReplayFrame {
   time: number;
   x: number;
   y: number;
-  keys: number;
+  keys: number; // bitmask of REPLAY_KEYS
+}
+
+// HP over time, for the life bar graph of exported replays
+export interface LifeBarPoint {
+  time: number;
+  hp: number; // 0-1
 }
 
 export interface Replay {
@@ -170,15 +264,30 @@ export interface Replay {
   missCount: number;
   timestamp: number;
   frames: ReplayFrame[];
+  lifeBar?: LifeBarPoint[];
+  scoringMode?: ScoringMode; // Missing on replays recorded before standardised scoring
 }
 
+export interface InputSettings {
+  key1: string; // KeyboardEvent.code
+  key2: string;
+  mouseButtons: boolean;
+}
+
+// Classic multiplies each hit by the current combo, so totals grow with map
+// length; standardised scales every map to the same 1,000,000 maximum
+export type ScoringMode = 'classic' | 'standardised';
+
 export interface GameSettings {
-  musicVolume: number;
-  effectVolume: number;
-  backgroundDim: number;
+  musicVolume: number; // 0-100
+  effectVolume: number; // 0-100
+  backgroundDim: number; // 0-100
   showFps: boolean;
   cursorSize: number;
   activeMods: string[];
+  input: InputSettings;
+  scoringMode: ScoringMode;
+  globalOffset: number; // ms, positive when sound reaches the player late
 }
 
 // Hit windows in milliseconds (OD 5 baseline)
@@ -203,3 +312,17 @@ export const HP_CHANGES = {
   good: 0.5,
   miss: -5,
 };
+
+// Flat points for the parts of a slider, on top of its final judgement
+export const SLIDER_PART_SCORES = {
+  head: 30,
+  tick: 10,
+  repeat: 30,
+  tail: 30,
+};
+
+// HP for following a slider part, and for a slider break
+export const SLIDER_PART_HP = {
+  hit: 0.5,
+  miss: -2.5,
+};
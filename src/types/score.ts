@@ -1,9 +1,13 @@
 // Score types for Beats66
 
+import { ScoringMode } from '@/types/game';
+
 export type Grade = 'SS' | 'S' | 'A' | 'B' | 'C' | 'D';
 
 export interface SavedScore {
   id: string;
+  beatmapHash?: string; // MD5 of the .osu; missing on scores saved before hashing
+  replayTimestamp?: number; // Replay recorded with this score, if one was saved
   beatmapName: string;
   difficulty: string;
   artist: string;
@@ -17,26 +21,25 @@ export interface SavedScore {
   goodCount: number;
   missCount: number;
   timestamp: number;
+  scoringMode?: ScoringMode; // Missing on scores saved before scoring modes
+  starRating?: number; // With the score's mods; missing on scores saved before star ratings
+  pp?: number; // Missing on scores saved before performance points
 }
 
-export const getGrade = (score: number, maxCombo: number, totalObjects: number): Grade => {
-  // Estimate max possible score: 300 points per object with perfect combo multiplier
-  const baseMaxScore = totalObjects * 300;
-  // Combo bonus estimation (simplified)
-  const comboBonus = Math.min(maxCombo / Math.max(totalObjects, 1), 1);
-  
-  // Performance ratio based on score and combo
-  const scoreRatio = Math.min(score / Math.max(baseMaxScore, 1), 1);
-  const performance = (scoreRatio * 0.7) + (comboBonus * 0.3);
-  
-  if (performance >= 0.98 && maxCombo >= totalObjects) return 'SS';
-  if (performance >= 0.90) return 'S';
-  if (performance >= 0.80) return 'A';
-  if (performance >= 0.65) return 'B';
-  if (performance >= 0.50) return 'C';
+// Accuracy (0-100) thresholds; a single miss caps the grade one step lower
+export const getGrade = (accuracy: number, missCount: number): Grade => {
+  const fullCombo = missCount === 0;
+  if (accuracy >= 100) return 'SS';
+  if (accuracy > 93 && fullCombo) return 'S';
+  if (accuracy > 93 || (accuracy > 85 && fullCombo)) return 'A';
+  if (accuracy > 85 || (accuracy > 75 && fullCombo)) return 'B';
+  if (accuracy > 75) return 'C';
   return 'D';
 };
 
+// Scores saved before scoring modes existed were all classic
+export const getScoringMode = (score: SavedScore): ScoringMode => score.scoringMode ?? 'classic';
+
 export const getGradeColor = (grade: Grade): string => {
   switch (grade) {
     case 'SS': return 'text-gold';
@@ -47,3 +50,9 @@ export const getGradeColor = (grade: Grade): string => {
     case 'D': return 'text-destructive';
   }
 };
+
+// Mean hit offset as shown to players, e.g. "4.2ms late"
+export const formatHitError = (meanHitError: number): string => {
+  if (Math.abs(meanHitError) < 0.05) return 'on time';
+  return `${Math.abs(meanHitError).toFixed(1)}ms ${meanHitError < 0 ? 'early' : 'late'}`;
+};